@@ -0,0 +1,98 @@
+import JSZip from "jszip";
+import {
+  isPartReferenced,
+  readRelationships,
+  removePart,
+  resolveTarget,
+} from "./package-parts";
+
+/**
+ * Removal of speaker notes and comments, which often carry context that the
+ * redacted slides no longer show.
+ */
+
+/** Remove a part, then any parts it pointed to that nothing else uses. */
+async function removeWithUnusedTargets(zip: JSZip, partPath: string): Promise<string[]> {
+  const targets = (await readRelationships(zip, partPath))
+    .filter((rel) => !rel.external)
+    .map((rel) => resolveTarget(partPath, rel.target));
+
+  await removePart(zip, partPath);
+  const removed = [partPath];
+
+  for (const target of targets) {
+    if (zip.file(target) && !(await isPartReferenced(zip, target))) {
+      await removePart(zip, target);
+      removed.push(target);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Remove every notes slide, and the notes master once no notes remain.
+ * Returns the removed part paths.
+ */
+export async function removeSpeakerNotes(zip: JSZip): Promise<string[]> {
+  const removed: string[] = [];
+
+  for (const file of zip.file(/^ppt\/notesSlides\/[^/]+\.xml$/)) {
+    await removePart(zip, file.name);
+    removed.push(file.name);
+  }
+
+  if (zip.file(/^ppt\/notesSlides\/[^/]+\.xml$/).length > 0) return removed;
+
+  // The master is only referenced from presentation.xml's notesMasterIdLst,
+  // whose r:id would dangle without its relationship
+  const masters = zip.file(/^ppt\/notesMasters\/[^/]+\.xml$/);
+  if (masters.length > 0) {
+    for (const master of masters) {
+      removed.push(...(await removeWithUnusedTargets(zip, master.name)));
+    }
+    const presentation = zip.file("ppt/presentation.xml");
+    if (presentation) {
+      const xml = await presentation.async("string");
+      zip.file(
+        "ppt/presentation.xml",
+        xml.replace(/<p:notesMasterIdLst\b[\s\S]*?<\/p:notesMasterIdLst>/, "")
+      );
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Remove legacy and modern comments along with their author lists.
+ * Returns the removed part paths.
+ */
+export async function removeComments(zip: JSZip): Promise<string[]> {
+  const removed: string[] = [];
+  const parts = [
+    ...zip.file(/^ppt\/comments\/[^/]+\.xml$/).map((f) => f.name),
+    "ppt/commentAuthors.xml",
+    "ppt/authors.xml",
+  ];
+
+  for (const part of parts) {
+    if (!zip.file(part)) continue;
+    await removePart(zip, part);
+    removed.push(part);
+  }
+  if (removed.length === 0) return removed;
+
+  // Modern comments are also linked from each slide's extLst by r:id
+  for (const slide of zip.file(/^ppt\/slides\/[^/]+\.xml$/)) {
+    const xml = await slide.async("string");
+    if (!xml.includes("commentRel")) continue;
+    zip.file(
+      slide.name,
+      xml.replace(/<p:ext\b[^>]*>((?:(?!<\/p:ext>)[\s\S])*)<\/p:ext>/g, (ext, body: string) =>
+        body.includes("commentRel") ? "" : ext
+      )
+    );
+  }
+
+  return removed;
+}
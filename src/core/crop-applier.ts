@@ -0,0 +1,231 @@
+import JSZip from "jszip";
+import {
+  ensureDefaultContentType,
+  nextRelationshipId,
+  parseRelationships,
+  relsPathFor,
+  resolveTarget,
+  uniquePartPath,
+} from "./package-parts";
+import { cropImageBlob, type CroppedImage } from "../utils/image-loader";
+
+export interface AppliedCrop {
+  /** Slide, layout or master part that displays the picture */
+  part: string;
+  /** The full original image, kept only if something else still uses it */
+  media: string;
+  /** The new image holding only the visible area */
+  croppedMedia: string;
+  originalSize: { width: number; height: number };
+  croppedSize: { width: number; height: number };
+}
+
+export interface SkippedCrop {
+  part: string;
+  media: string;
+  reason: string;
+}
+
+export interface CropResult {
+  applied: AppliedCrop[];
+  skipped: SkippedCrop[];
+}
+
+/** Raster formats that can be decoded and re-encoded here, and what they become. */
+const CROPPABLE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  gif: "image/png",
+  bmp: "image/png",
+};
+
+/** srcRect offsets are in thousandths of a percent. */
+const SRC_RECT_UNIT = 100000;
+
+interface SrcRect {
+  l: number;
+  t: number;
+  r: number;
+  b: number;
+}
+
+function parseSrcRect(element: string): SrcRect {
+  const read = (name: string) => {
+    const m = element.match(new RegExp(`\\b${name}="(-?\\d+)"`));
+    return m ? Number(m[1]) / SRC_RECT_UNIT : 0;
+  };
+  return { l: read("l"), t: read("t"), r: read("r"), b: read("b") };
+}
+
+/**
+ * The srcRect left after cutting the positive (cropping) offsets out of the
+ * image. Negative offsets pad the picture and are kept, rescaled to the new size.
+ */
+function remainingSrcRect(rect: SrcRect): string {
+  const keptWidth = 1 - Math.max(rect.l, 0) - Math.max(rect.r, 0);
+  const keptHeight = 1 - Math.max(rect.t, 0) - Math.max(rect.b, 0);
+  const attrs = (
+    [
+      ["l", rect.l, keptWidth],
+      ["t", rect.t, keptHeight],
+      ["r", rect.r, keptWidth],
+      ["b", rect.b, keptHeight],
+    ] as const
+  )
+    .filter(([, value]) => value < 0)
+    .map(
+      ([name, value, kept]) =>
+        ` ${name}="${Math.round((value / kept) * SRC_RECT_UNIT)}"`
+    );
+  return `<a:srcRect${attrs.join("")}/>`;
+}
+
+/**
+ * Flatten crops in one part: every cropped picture is pointed at a new media
+ * file holding only its visible pixels, and its srcRect is cleared.
+ */
+async function applyCropsInPart(
+  zip: JSZip,
+  partPath: string,
+  result: CropResult
+): Promise<void> {
+  const file = zip.file(partPath);
+  if (!file) return;
+  const xml = await file.async("string");
+  if (!xml.includes("<a:srcRect")) return;
+
+  const relsPath = relsPathFor(partPath);
+  const relsFile = zip.file(relsPath);
+  if (!relsFile) return;
+  let relsXml = await relsFile.async("string");
+  const relationships = parseRelationships(relsXml);
+
+  const edits: { index: number; length: number; text: string }[] = [];
+  const newRels: string[] = [];
+  const retargetedIds = new Set<string>();
+
+  // Pictures, and shapes with a picture fill
+  for (const m of xml.matchAll(/<p:(pic|sp)\b[\s\S]*?<\/p:\1>/g)) {
+    const shape = m[0];
+    const rectMatch = shape.match(/<a:srcRect\b[^>]*\/>/);
+    const embedMatch = shape.match(/<a:blip\b[^>]*?\br:embed="([^"]+)"/);
+    if (!rectMatch || !embedMatch) continue;
+
+    const rect = parseSrcRect(rectMatch[0]);
+    if (rect.l <= 0 && rect.t <= 0 && rect.r <= 0 && rect.b <= 0) continue;
+
+    const rel = relationships.find((r) => r.id === embedMatch[1]);
+    if (!rel || rel.external) continue;
+    const media = resolveTarget(partPath, rel.target);
+    const mediaFile = zip.file(media);
+    if (!mediaFile) continue;
+
+    const ext = media.split(".").pop()?.toLowerCase() ?? "";
+    const mimeType = CROPPABLE_TYPES[ext];
+    if (!mimeType) {
+      result.skipped.push({
+        part: partPath,
+        media,
+        reason: `.${ext} images cannot be cropped here`,
+      });
+      continue;
+    }
+    if (shape.includes("svgBlip")) {
+      result.skipped.push({
+        part: partPath,
+        media,
+        reason: "SVG picture; only its PNG fallback could be cropped",
+      });
+      continue;
+    }
+
+    // A picture that cannot be decoded keeps its crop; the rest still get theirs
+    let cropped: CroppedImage;
+    try {
+      cropped = await cropImageBlob(
+        await mediaFile.async("blob"),
+        {
+          left: Math.max(rect.l, 0),
+          top: Math.max(rect.t, 0),
+          right: Math.max(rect.r, 0),
+          bottom: Math.max(rect.b, 0),
+        },
+        mimeType
+      );
+    } catch (err) {
+      result.skipped.push({
+        part: partPath,
+        media,
+        reason: `could not be decoded (${err instanceof Error ? err.message : String(err)})`,
+      });
+      continue;
+    }
+
+    const outExt = mimeType === "image/jpeg" ? ext : "png";
+    const croppedMedia = uniquePartPath(
+      zip,
+      media.replace(/\.[^./]+$/, `.${outExt}`),
+      "cropped"
+    );
+    zip.file(croppedMedia, cropped.blob);
+    await ensureDefaultContentType(zip, outExt, mimeType);
+
+    const id = nextRelationshipId(relationships);
+    const target = rel.target.replace(/[^/]+$/, croppedMedia.split("/").pop()!);
+    const relXml = `<Relationship Id="${id}" Type="${rel.type}" Target="${target}"/>`;
+    relationships.push({ id, type: rel.type, target, external: false, xml: relXml });
+    newRels.push(relXml);
+    retargetedIds.add(rel.id);
+
+    const embed = embedMatch[0].replace(`r:embed="${rel.id}"`, `r:embed="${id}"`);
+    edits.push({
+      index: m.index!,
+      length: shape.length,
+      text: shape
+        .replace(embedMatch[0], embed)
+        .replace(rectMatch[0], remainingSrcRect(rect)),
+    });
+
+    result.applied.push({
+      part: partPath,
+      media,
+      croppedMedia,
+      originalSize: { width: cropped.sourceWidth, height: cropped.sourceHeight },
+      croppedSize: { width: cropped.width, height: cropped.height },
+    });
+  }
+
+  if (edits.length === 0) return;
+
+  let updated = xml;
+  for (const edit of edits.reverse()) {
+    updated =
+      updated.slice(0, edit.index) + edit.text + updated.slice(edit.index + edit.length);
+  }
+  zip.file(partPath, updated);
+
+  // Drop relationships to the uncropped originals that nothing here uses any
+  // more, so the orphan scan can remove the full images
+  for (const id of retargetedIds) {
+    if (updated.includes(`"${id}"`)) continue;
+    const rel = relationships.find((r) => r.id === id);
+    if (rel) relsXml = relsXml.replace(rel.xml, "");
+  }
+  relsXml = relsXml.replace("</Relationships>", `${newRels.join("")}</Relationships>`);
+  zip.file(relsPath, relsXml);
+}
+
+/**
+ * Destructively apply picture crops. PowerPoint crops with <a:srcRect> but
+ * keeps the whole image in ppt/media, so the "cropped away" area is still in
+ * the file. Run this before the orphaned-part scan.
+ */
+export async function applyPictureCrops(zip: JSZip): Promise<CropResult> {
+  const result: CropResult = { applied: [], skipped: [] };
+  const parts = zip.file(/^ppt\/(slides|slideLayouts|slideMasters)\/[^/]+\.xml$/);
+  for (const part of parts) {
+    await applyCropsInPart(zip, part.name, result);
+  }
+  return result;
+}
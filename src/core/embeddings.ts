@@ -0,0 +1,304 @@
+import JSZip from "jszip";
+import {
+  readRelationships,
+  relsPathFor,
+  parseRelationships,
+  resolveTarget,
+  slidePartsInOrder,
+  sourcePartFor,
+  type Relationship,
+} from "./package-parts";
+
+/**
+ * Inventory and handling of embedded data: chart source workbooks
+ * (ppt/embeddings/*.xlsx) and pasted OLE objects (oleObject*.bin and
+ * embedded documents), which often hold far more than the slide shows.
+ */
+
+/** "unhandled": embedded somewhere other than a slide, layout, master or notes page */
+export type EmbeddingKind = "chart-workbook" | "ole-object" | "unhandled";
+
+export type EmbeddingAction = "keep" | "remove-workbook" | "convert-to-image";
+
+export interface EmbeddedObject {
+  /** The embedded part, e.g. ppt/embeddings/Microsoft_Excel_Worksheet1.xlsx */
+  part: string;
+  kind: EmbeddingKind;
+  /** Chart, slide, layout, master or notes part holding the relationship */
+  owner: string;
+  /** 1-based slide number, or null if not on a slide */
+  slide: number | null;
+  /** OLE program id or file name, for display */
+  label: string;
+  /** Uncompressed size in bytes */
+  size: number;
+}
+
+export interface EmbeddingOutcome {
+  object: EmbeddedObject;
+  action: EmbeddingAction;
+  /** What was actually done, e.g. when a conversion had to fall back */
+  detail: string;
+}
+
+/** Actions that make sense for each kind of embedding. */
+export const EMBEDDING_ACTIONS: Record<EmbeddingKind, EmbeddingAction[]> = {
+  "chart-workbook": ["remove-workbook", "keep"],
+  "ole-object": ["convert-to-image", "keep"],
+  unhandled: ["keep"],
+};
+
+/** The safe choice when the user has not picked one. */
+export function defaultEmbeddingAction(kind: EmbeddingKind): EmbeddingAction {
+  return EMBEDDING_ACTIONS[kind][0];
+}
+
+const isEmbeddingRel = (rel: Relationship) =>
+  !rel.external && (rel.type.endsWith("/package") || rel.type.endsWith("/oleObject"));
+
+/** progId or name of the <p:oleObj> using a relationship, if any. */
+function oleLabel(slideXml: string, relId: string): string | null {
+  for (const m of slideXml.matchAll(/<p:oleObj\b[^>]*>/g)) {
+    if (!m[0].includes(`r:id="${relId}"`)) continue;
+    const progId = m[0].match(/\bprogId="([^"]*)"/)?.[1];
+    const name = m[0].match(/\bname="([^"]*)"/)?.[1];
+    return progId || name || null;
+  }
+  return null;
+}
+
+/** Other parts that can hold OLE objects and charts, in the same p: markup as slides. */
+const OTHER_OWNERS =
+  /^ppt\/(slideLayouts|slideMasters|notesSlides|notesMasters|handoutMasters)\/[^/]+\.xml$/;
+
+const isChartRel = (rel: Relationship) =>
+  rel.type.endsWith("/chart") || rel.type.endsWith("/chartEx");
+
+/** Where an embedding lives, for messages: "slide 3" or the owning part's name. */
+export function embeddingLocation(object: EmbeddedObject): string {
+  return object.slide !== null ? `slide ${object.slide}` : object.owner.split("/").pop()!;
+}
+
+/**
+ * List every chart workbook and OLE object: those on slides, layouts,
+ * masters and notes pages, which can be handled, and any found elsewhere in
+ * the package as "unhandled", so they are at least reported.
+ */
+export async function listEmbeddings(zip: JSZip): Promise<EmbeddedObject[]> {
+  const objects: EmbeddedObject[] = [];
+  const seen = new Set<string>();
+
+  const add = async (
+    part: string,
+    kind: EmbeddingKind,
+    owner: string,
+    slide: number | null,
+    label: string
+  ) => {
+    const file = zip.file(part);
+    if (!file || seen.has(`${owner}\n${part}`)) return;
+    seen.add(`${owner}\n${part}`);
+    const size = (await file.async("uint8array")).length;
+    objects.push({ part, kind, owner, slide, label, size });
+  };
+
+  const slideParts = await slidePartsInOrder(zip);
+  const otherOwners = zip
+    .file(OTHER_OWNERS)
+    .map((file) => file.name)
+    .sort();
+  const scanned = new Set<string>();
+
+  const addWorkbooks = async (chart: string, slide: number | null) => {
+    scanned.add(chart);
+    for (const chartRel of await readRelationships(zip, chart)) {
+      if (!isEmbeddingRel(chartRel)) continue;
+      const workbook = resolveTarget(chart, chartRel.target);
+      await add(workbook, "chart-workbook", chart, slide, workbook.split("/").pop()!);
+    }
+  };
+
+  for (const owner of [...slideParts, ...otherOwners]) {
+    if (scanned.has(owner)) continue;
+    scanned.add(owner);
+    const index = slideParts.indexOf(owner);
+    const slide = index >= 0 ? index + 1 : null;
+    const ownerXml = (await zip.file(owner)?.async("string")) ?? "";
+
+    for (const rel of await readRelationships(zip, owner)) {
+      if (rel.external) continue;
+      const target = resolveTarget(owner, rel.target);
+
+      if (isEmbeddingRel(rel)) {
+        const label = oleLabel(ownerXml, rel.id) ?? target.split("/").pop()!;
+        await add(target, "ole-object", owner, slide, label);
+      } else if (isChartRel(rel)) {
+        await addWorkbooks(target, slide);
+      }
+    }
+  }
+
+  // Anything else: charts reached another way still have removable
+  // workbooks; other embeddings can only be reported
+  for (const relsFile of zip.file(/\.rels$/)) {
+    const source = sourcePartFor(relsFile.name);
+    if (scanned.has(source)) continue;
+    const rels = parseRelationships(await relsFile.async("string"));
+    if (/^ppt\/charts\//.test(source)) {
+      await addWorkbooks(source, null);
+      continue;
+    }
+    for (const rel of rels.filter(isEmbeddingRel)) {
+      const target = resolveTarget(source, rel.target);
+      await add(target, "unhandled", source, null, target.split("/").pop()!);
+    }
+  }
+
+  return objects;
+}
+
+/** Drop relationships from a part's .rels whose ids its XML no longer uses. */
+async function dropUnusedRelationships(
+  zip: JSZip,
+  partPath: string,
+  xml: string,
+  ids: string[]
+): Promise<void> {
+  const relsPath = relsPathFor(partPath);
+  const relsFile = zip.file(relsPath);
+  if (!relsFile) return;
+  let relsXml = await relsFile.async("string");
+  for (const rel of await readRelationships(zip, partPath)) {
+    if (ids.includes(rel.id) && !xml.includes(`"${rel.id}"`)) {
+      relsXml = relsXml.replace(rel.xml, "");
+    }
+  }
+  zip.file(relsPath, relsXml);
+}
+
+/**
+ * Cut a chart loose from its source workbook. The chart keeps rendering from
+ * the values cached in its own XML; only "Edit Data" stops working.
+ */
+async function removeChartWorkbook(zip: JSZip, object: EmbeddedObject): Promise<string> {
+  const chartFile = zip.file(object.owner);
+  if (!chartFile) return "chart not found";
+  const rels = await readRelationships(zip, object.owner);
+  const ids = rels
+    .filter((rel) => isEmbeddingRel(rel) && resolveTarget(object.owner, rel.target) === object.part)
+    .map((rel) => rel.id);
+
+  let xml = await chartFile.async("string");
+  xml = xml.replace(
+    /<(\w+):externalData\b[^>]*?(?:\/>|>[\s\S]*?<\/\1:externalData>)/g,
+    (element) => (ids.some((id) => element.includes(`"${id}"`)) ? "" : element)
+  );
+  zip.file(object.owner, xml);
+  await dropUnusedRelationships(zip, object.owner, xml, ids);
+  return "workbook removed, cached chart values kept";
+}
+
+/**
+ * A <p:pic> showing an OLE frame's preview image, at the same position and
+ * with the same name, or null if the frame has no preview. When the frame
+ * holds the object in mc:AlternateContent, the preview is the fallback's.
+ */
+function previewPicture(frame: string): string | null {
+  const cNvPr = frame.match(/<p:cNvPr\b[^>]*?(?:\/>|>[\s\S]*?<\/p:cNvPr>)/)?.[0];
+  const xfrm = frame.match(/<p:xfrm\b([^>]*)>([\s\S]*?)<\/p:xfrm>/);
+  const fallback = frame.match(/<mc:Fallback\b[\s\S]*?<\/mc:Fallback>/)?.[0] ?? frame;
+  const preview = fallback.match(/<a:blip\b[^>]*?\br:embed="([^"]+)"/)?.[1];
+  if (!cNvPr || !xfrm || !preview) return null;
+
+  return (
+    `<p:pic><p:nvPicPr>${cNvPr}<p:cNvPicPr/><p:nvPr/></p:nvPicPr>` +
+    `<p:blipFill><a:blip r:embed="${preview}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+    `<p:spPr><a:xfrm${xfrm[1]}>${xfrm[2]}</a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>` +
+    `</p:pic>`
+  );
+}
+
+/** Replace each graphic frame holding the OLE object with its preview picture. */
+async function convertOleToImage(zip: JSZip, object: EmbeddedObject): Promise<string> {
+  const slideFile = zip.file(object.owner);
+  if (!slideFile) return "slide not found";
+  const rels = await readRelationships(zip, object.owner);
+  const ids = rels
+    .filter((rel) => isEmbeddingRel(rel) && resolveTarget(object.owner, rel.target) === object.part)
+    .map((rel) => rel.id);
+
+  const usesObject = (xml: string) =>
+    ids.some((id) => new RegExp(`<p:oleObj\\b[^>]*r:id="${id}"`).test(xml));
+
+  let converted = 0;
+  let removed = 0;
+  const replace = (frames: string[]) => {
+    for (const frame of frames) {
+      const picture = previewPicture(frame);
+      if (picture) {
+        converted++;
+        return picture;
+      }
+    }
+    // No preview to show instead — drop the object rather than keep its data
+    removed++;
+    return "";
+  };
+
+  let xml = await slideFile.async("string");
+  // Some writers put the whole frame in mc:AlternateContent, once in
+  // mc:Choice and once in mc:Fallback; replace the block with one picture
+  xml = xml.replace(
+    /<mc:AlternateContent\b[^>]*>\s*<mc:Choice\b[^>]*>\s*<p:graphicFrame\b[\s\S]*?<\/p:graphicFrame>\s*<\/mc:Fallback>\s*<\/mc:AlternateContent>/g,
+    (block) =>
+      usesObject(block)
+        ? replace(block.match(/<p:graphicFrame\b[\s\S]*?<\/p:graphicFrame>/g) ?? [])
+        : block
+  );
+  // PowerPoint 2010+ keeps the frame and puts mc:AlternateContent inside its
+  // graphic data, with the preview in mc:Fallback
+  xml = xml.replace(/<p:graphicFrame\b[\s\S]*?<\/p:graphicFrame>/g, (frame) =>
+    usesObject(frame) ? replace([frame]) : frame
+  );
+
+  zip.file(object.owner, xml);
+  await dropUnusedRelationships(zip, object.owner, xml, ids);
+
+  if (converted > 0 && removed === 0) return "converted to its preview image";
+  if (converted === 0 && removed > 0) return "removed (no preview image available)";
+  if (converted === 0) return "object not found";
+  return `converted ${converted}, removed ${removed} without a preview`;
+}
+
+/**
+ * Apply the chosen action to every embedding. Objects without a choice get
+ * the default action for their kind. The embedded parts themselves become
+ * unreachable and are dropped by the orphaned-part scan, so run this first.
+ */
+export async function applyEmbeddingActions(
+  zip: JSZip,
+  actions: Record<string, EmbeddingAction>
+): Promise<EmbeddingOutcome[]> {
+  const outcomes: EmbeddingOutcome[] = [];
+
+  for (const object of await listEmbeddings(zip)) {
+    const chosen = actions[object.part];
+    const action =
+      chosen && EMBEDDING_ACTIONS[object.kind].includes(chosen)
+        ? chosen
+        : defaultEmbeddingAction(object.kind);
+
+    let detail =
+      object.kind === "unhandled"
+        ? "kept — not on a slide, layout, master or notes page; review it manually"
+        : "kept as is";
+    if (action === "remove-workbook") {
+      detail = await removeChartWorkbook(zip, object);
+    } else if (action === "convert-to-image") {
+      detail = await convertOleToImage(zip, object);
+    }
+    outcomes.push({ object, action, detail });
+  }
+
+  return outcomes;
+}
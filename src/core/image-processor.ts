@@ -1,94 +1,105 @@
-import type { BlurRegion } from "../types/editor";
-import { loadImage, stripDataUrlPrefix } from "../utils/image-loader";
+import type {
+  BlurRegion,
+  RegionBounds,
+  RegionGeometry,
+  RegionStyle,
+} from "../types/editor";
+import {
+  base64ToBlob,
+  blobToBase64,
+  loadImage,
+  stripDataUrlPrefix,
+} from "../utils/image-loader";
+import { secureRandom, seededRandom } from "../utils/random";
+import {
+  RESIZE_HANDLES,
+  handlePosition,
+  scaleGeometry,
+  traceRegionPath,
+  translateGeometry,
+} from "./region-geometry";
+import {
+  RedactionCancelledError,
+  applyRegionToBuffer,
+  applyRegions,
+  type ProgressCallback,
+} from "./redaction";
+import type {
+  RedactionRequest,
+  RedactionResponse,
+} from "./redaction.worker";
 
-/**
- * Apply pixelation to a rectangular region on a canvas context.
- * Every pixel in each block is overwritten with the block average — no original values survive.
- */
-function applyPixelation(
-  ctx: CanvasRenderingContext2D,
-  region: BlurRegion
-): void {
-  const blockSize = region.blockSize;
-  const { x, y, width, height } = region;
-
-  // Clamp to canvas bounds
-  const cx = Math.max(0, Math.round(x));
-  const cy = Math.max(0, Math.round(y));
-  const cw = Math.min(Math.round(width), ctx.canvas.width - cx);
-  const ch = Math.min(Math.round(height), ctx.canvas.height - cy);
-
-  if (cw <= 0 || ch <= 0) return;
-
-  const imageData = ctx.getImageData(cx, cy, cw, ch);
-  const data = imageData.data;
-
-  for (let blockY = 0; blockY < ch; blockY += blockSize) {
-    for (let blockX = 0; blockX < cw; blockX += blockSize) {
-      const bw = Math.min(blockSize, cw - blockX);
-      const bh = Math.min(blockSize, ch - blockY);
-      let r = 0,
-        g = 0,
-        b = 0,
-        a = 0,
-        count = 0;
-
-      // Sum all pixels in block
-      for (let py = blockY; py < blockY + bh; py++) {
-        for (let px = blockX; px < blockX + bw; px++) {
-          const i = (py * cw + px) * 4;
-          r += data[i];
-          g += data[i + 1];
-          b += data[i + 2];
-          a += data[i + 3];
-          count++;
-        }
-      }
+/** Side length of a selection handle on the preview canvas, in pixels. */
+const HANDLE_SIZE = 8;
 
-      // Fill block with average (destroys original pixel values)
-      const avgR = Math.round(r / count);
-      const avgG = Math.round(g / count);
-      const avgB = Math.round(b / count);
-      const avgA = Math.round(a / count);
-
-      for (let py = blockY; py < blockY + bh; py++) {
-        for (let px = blockX; px < blockX + bw; px++) {
-          const i = (py * cw + px) * 4;
-          data[i] = avgR;
-          data[i + 1] = avgG;
-          data[i + 2] = avgB;
-          data[i + 3] = avgA;
-        }
-      }
-    }
+/** Whether an in-progress geometry is large enough to draw. */
+function hasExtent(geometry: RegionGeometry): boolean {
+  if (geometry.shape === "polygon" || geometry.shape === "lasso") {
+    return geometry.points.length > 1;
   }
+  return geometry.width !== 0 && geometry.height !== 0;
+}
 
-  ctx.putImageData(imageData, cx, cy);
+/** Options for `processImage`. */
+export interface ProcessOptions {
+  onProgress?: ProgressCallback;
+  /** Aborting terminates the worker and rejects with `RedactionCancelledError` */
+  signal?: AbortSignal;
 }
 
 /**
- * Apply solid-color fill to a rectangular region.
+ * Run the redaction in a Web Worker so large images don't freeze the taskpane.
  */
-function applySolidMask(
-  ctx: CanvasRenderingContext2D,
-  region: BlurRegion
-): void {
-  ctx.fillStyle = region.fillColor;
-  ctx.fillRect(
-    Math.round(region.x),
-    Math.round(region.y),
-    Math.round(region.width),
-    Math.round(region.height)
-  );
+function processInWorker(
+  image: Blob,
+  regions: BlurRegion[],
+  { onProgress, signal }: ProcessOptions
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL("./redaction.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new RedactionCancelledError());
+    };
+
+    worker.onmessage = (e: MessageEvent<RedactionResponse>) => {
+      const msg = e.data;
+      if (msg.type === "progress") {
+        onProgress?.(msg.done, msg.total);
+      } else if (msg.type === "done") {
+        finish();
+        resolve(msg.png);
+      } else {
+        finish();
+        reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || "Redaction worker failed"));
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    const request: RedactionRequest = { image, regions };
+    worker.postMessage(request);
+  });
 }
 
 /**
- * Process an image by applying all blur regions.
- * Returns the processed image as a base64 PNG string (without data URL prefix).
+ * Main-thread fallback for hosts without Worker/OffscreenCanvas support.
  */
-export async function processImage(
+async function processOnMainThread(
   base64: string,
-  regions: BlurRegion[]
+  regions: BlurRegion[],
+  { onProgress, signal }: ProcessOptions
 ): Promise<string> {
   const img = await loadImage(base64);
 
@@ -102,14 +113,9 @@ export async function processImage(
   // Draw original image
   ctx.drawImage(img, 0, 0);
 
-  // Apply each region
-  for (const region of regions) {
-    if (region.mode === "pixelate") {
-      applyPixelation(ctx, region);
-    } else {
-      applySolidMask(ctx, region);
-    }
-  }
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyRegions(imageData, regions, secureRandom, onProgress, signal);
+  ctx.putImageData(imageData, 0, 0);
 
   // Export as PNG (lossless — no JPEG compression artifacts leaking original data)
   const dataUrl = canvas.toDataURL("image/png");
@@ -117,67 +123,164 @@ export async function processImage(
 }
 
 /**
- * Render a preview of the image with blur regions applied.
- * Draws onto the provided canvas context for live preview.
+ * Process an image by applying all blur regions.
+ * Returns the processed image as a base64 PNG string (without data URL prefix).
+ */
+export async function processImage(
+  base64: string,
+  regions: BlurRegion[],
+  options: ProcessOptions = {}
+): Promise<string> {
+  if (options.signal?.aborted) throw new RedactionCancelledError();
+
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") {
+    return processOnMainThread(base64, regions, options);
+  }
+
+  const png = await processInWorker(base64ToBlob(base64), regions, options);
+  return blobToBase64(png);
+}
+
+/**
+ * Apply regions on top of a layer that is already at image resolution.
+ * Each region only reads back and rewrites its own bounding box.
+ */
+export function applyRegionsToLayer(
+  ctx: CanvasRenderingContext2D,
+  regions: BlurRegion[]
+): void {
+  const { width, height } = ctx.canvas;
+
+  for (const region of regions) {
+    const x0 = Math.max(0, Math.floor(region.x));
+    const y0 = Math.max(0, Math.floor(region.y));
+    const x1 = Math.min(width, Math.ceil(region.x + region.width));
+    const y1 = Math.min(height, Math.ceil(region.y + region.height));
+    if (x1 <= x0 || y1 <= y0) continue;
+
+    const imageData = ctx.getImageData(x0, y0, x1 - x0, y1 - y0);
+    // Seed from the region id so the preview noise is stable between renders
+    applyRegionToBuffer(
+      imageData,
+      translateGeometry(region, -x0, -y0),
+      seededRandom(region.id)
+    );
+    ctx.putImageData(imageData, x0, y0);
+  }
+}
+
+/**
+ * Render the image with all committed regions applied, at image resolution.
+ * This is the expensive layer — callers cache it and only redraw it when the
+ * regions change; zooming and scrolling just resample it.
  */
-export async function renderPreview(
+export function renderRegionLayer(
   ctx: CanvasRenderingContext2D,
   img: HTMLImageElement,
-  regions: BlurRegion[],
-  drawState: { x: number; y: number; width: number; height: number } | null,
-  currentMode: "pixelate" | "solid",
-  currentBlockSize: number,
-  currentFillColor: string
-): Promise<void> {
+  regions: BlurRegion[]
+): void {
   const canvas = ctx.canvas;
   ctx.clearRect(0, 0, canvas.width, canvas.height);
-  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0);
+  applyRegionsToLayer(ctx, regions);
+}
 
-  // Scale factor from display to image coordinates
-  const scaleX = img.naturalWidth / canvas.width;
-  const scaleY = img.naturalHeight / canvas.height;
+/** Whether two boxes overlap by more than an edge. */
+function boundsOverlap(a: RegionBounds, b: RegionBounds): boolean {
+  return (
+    a.x < b.x + b.width &&
+    b.x < a.x + a.width &&
+    a.y < b.y + b.height &&
+    b.y < a.y + a.height
+  );
+}
 
-  // Apply committed regions
-  for (const region of regions) {
-    const scaledRegion: BlurRegion = {
-      ...region,
-      x: region.x / scaleX,
-      y: region.y / scaleY,
-      width: region.width / scaleX,
-      height: region.height / scaleY,
-      blockSize: Math.max(1, Math.round(region.blockSize / scaleX)),
-    };
+/** The smallest box containing both boxes. */
+export function unionBounds(a: RegionBounds, b: RegionBounds): RegionBounds {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
 
-    if (region.mode === "pixelate") {
-      applyPixelation(ctx, scaledRegion);
-    } else {
-      applySolidMask(ctx, scaledRegion);
+/**
+ * Redraw one area of a region layer after the regions there changed: the
+ * area is restored from the image and every region touching it is applied
+ * again, in order. Each region reads its whole bounding box, so the area
+ * first grows until it covers every region it touches.
+ */
+export function renderRegionLayerArea(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  regions: BlurRegion[],
+  area: RegionBounds
+): void {
+  let bounds = area;
+  let affected: BlurRegion[] = [];
+  for (let grown = true; grown; ) {
+    grown = false;
+    affected = regions.filter((r) => boundsOverlap(r, bounds));
+    for (const region of affected) {
+      const next = unionBounds(bounds, region);
+      if (next.width !== bounds.width || next.height !== bounds.height) grown = true;
+      bounds = next;
     }
   }
 
-  // Draw current selection rectangle (preview)
-  if (drawState && drawState.width !== 0 && drawState.height !== 0) {
-    if (currentMode === "solid") {
-      ctx.fillStyle = currentFillColor;
-      ctx.fillRect(
-        drawState.x / scaleX,
-        drawState.y / scaleY,
-        drawState.width / scaleX,
-        drawState.height / scaleY
-      );
+  const x0 = Math.max(0, Math.floor(bounds.x));
+  const y0 = Math.max(0, Math.floor(bounds.y));
+  const x1 = Math.min(ctx.canvas.width, Math.ceil(bounds.x + bounds.width));
+  const y1 = Math.min(ctx.canvas.height, Math.ceil(bounds.y + bounds.height));
+  if (x1 <= x0 || y1 <= y0) return;
+
+  ctx.clearRect(x0, y0, x1 - x0, y1 - y0);
+  ctx.drawImage(img, x0, y0, x1 - x0, y1 - y0, x0, y0, x1 - x0, y1 - y0);
+  applyRegionsToLayer(ctx, affected);
+}
+
+/**
+ * Draw the lightweight overlay on top of the region layer: the in-progress
+ * shape, region outlines and the selection handles. Coordinates are in the
+ * zoomed display space of `displayWidth` × `displayHeight`; callers translate
+ * the context when only part of that space is on screen.
+ */
+export function renderOverlay(
+  ctx: CanvasRenderingContext2D,
+  imageWidth: number,
+  imageHeight: number,
+  displayWidth: number,
+  displayHeight: number,
+  regions: BlurRegion[],
+  drawState: RegionGeometry | null,
+  currentStyle: RegionStyle,
+  activeRegionId: string | null = null
+): void {
+  // Scale factor from display to image coordinates
+  const scaleX = imageWidth / displayWidth;
+  const scaleY = imageHeight / displayHeight;
+
+  // Draw current selection shape (preview)
+  if (drawState && hasExtent(drawState)) {
+    traceRegionPath(ctx, scaleGeometry(drawState, scaleX, scaleY));
+    if (currentStyle.mode === "solid") {
+      ctx.fillStyle = currentStyle.fillColor;
+      ctx.fill();
     } else {
-      // For pixelate preview, show dashed outline with dash size based on block size
-      const dashSize = Math.max(2, currentBlockSize / scaleX);
+      // For pixelate/blur preview, show dashed outline sized to the effect strength
+      const strength =
+        currentStyle.mode === "blur"
+          ? currentStyle.blurRadius
+          : currentStyle.blockSize;
+      const dashSize = Math.max(2, strength / scaleX);
       ctx.save();
       ctx.setLineDash([dashSize, dashSize]);
       ctx.strokeStyle = "#ff4444";
       ctx.lineWidth = 2;
-      ctx.strokeRect(
-        drawState.x / scaleX,
-        drawState.y / scaleY,
-        drawState.width / scaleX,
-        drawState.height / scaleY
-      );
+      ctx.stroke();
       ctx.restore();
     }
   }
@@ -188,12 +291,25 @@ export async function renderPreview(
     ctx.setLineDash([3, 3]);
     ctx.strokeStyle = "rgba(255, 68, 68, 0.7)";
     ctx.lineWidth = 1.5;
-    ctx.strokeRect(
-      region.x / scaleX,
-      region.y / scaleY,
-      region.width / scaleX,
-      region.height / scaleY
-    );
+    traceRegionPath(ctx, scaleGeometry(region, scaleX, scaleY));
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Highlight the selected region with a bounding box and resize handles
+  const active = regions.find((r) => r.id === activeRegionId);
+  if (active) {
+    const bounds = scaleGeometry(active, scaleX, scaleY);
+    ctx.save();
+    ctx.strokeStyle = "#0066cc";
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.fillStyle = "#fff";
+    for (const handle of RESIZE_HANDLES) {
+      const p = handlePosition(bounds, handle);
+      ctx.fillRect(p.x - HANDLE_SIZE / 2, p.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+      ctx.strokeRect(p.x - HANDLE_SIZE / 2, p.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+    }
     ctx.restore();
   }
 }
@@ -0,0 +1,355 @@
+import JSZip from "jszip";
+import { readRelationships, resolveTarget, slidePartsInOrder } from "./package-parts";
+import { embeddingLocation, listEmbeddings, type EmbeddedObject } from "./embeddings";
+
+export type LeakSeverity = "high" | "medium" | "low";
+
+export type LeakKind =
+  | "hidden-slide"
+  | "hidden-shape"
+  | "off-slide"
+  | "covered-picture"
+  | "speaker-notes"
+  | "comments"
+  | "embedded-object";
+
+export interface LeakFinding {
+  kind: LeakKind;
+  severity: LeakSeverity;
+  /** 1-based slide number, or null for findings outside the slide list */
+  slide: number | null;
+  /** Package part the finding was made in */
+  part: string;
+  /** Shape name as shown in PowerPoint's Selection Pane, when relevant */
+  shapeName?: string;
+  message: string;
+}
+
+export interface AuditReport {
+  generatedAt: string;
+  slideCount: number;
+  findings: LeakFinding[];
+  /** Chart workbooks and OLE objects, for choosing what export does with them */
+  embeddings: EmbeddedObject[];
+}
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Maps a group's child coordinate space onto slide coordinates. */
+type Transform = (b: Bounds) => Bounds;
+
+const identity: Transform = (b) => b;
+
+const REL_NOTES = "/notesSlide";
+const REL_COMMENTS = ["/comments", "/relationships/comments"];
+
+function child(el: Element, localName: string): Element | null {
+  for (const c of Array.from(el.children)) {
+    if (c.localName === localName) return c;
+  }
+  return null;
+}
+
+function descendants(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagName("*")).filter(
+    (el) => el.localName === localName
+  );
+}
+
+function num(el: Element | null, name: string): number {
+  return el ? Number(el.getAttribute(name) ?? 0) : 0;
+}
+
+/** The <a:xfrm>/<p:xfrm> of a shape, wherever that shape type keeps it. */
+function shapeXfrm(shape: Element): Element | null {
+  const props = child(shape, "spPr") ?? child(shape, "grpSpPr");
+  return props ? child(props, "xfrm") : child(shape, "xfrm");
+}
+
+function xfrmBounds(xfrm: Element): Bounds {
+  const off = child(xfrm, "off");
+  const ext = child(xfrm, "ext");
+  return {
+    x: num(off, "x"),
+    y: num(off, "y"),
+    width: num(ext, "cx"),
+    height: num(ext, "cy"),
+  };
+}
+
+/** Build the transform a group applies to its children. */
+function groupTransform(xfrm: Element, outer: Transform): Transform {
+  const own = xfrmBounds(xfrm);
+  const chOff = child(xfrm, "chOff");
+  const chExt = child(xfrm, "chExt");
+  const cx = num(chOff, "x");
+  const cy = num(chOff, "y");
+  const sx = num(chExt, "cx") ? own.width / num(chExt, "cx") : 1;
+  const sy = num(chExt, "cy") ? own.height / num(chExt, "cy") : 1;
+  return (b) =>
+    outer({
+      x: own.x + (b.x - cx) * sx,
+      y: own.y + (b.y - cy) * sy,
+      width: b.width * sx,
+      height: b.height * sy,
+    });
+}
+
+interface FlatShape {
+  el: Element;
+  name: string;
+  hidden: boolean;
+  isPicture: boolean;
+  bounds: Bounds | null;
+}
+
+/** Flatten a shape tree in z-order (back to front), resolving group transforms. */
+function flattenShapes(tree: Element, transform: Transform, out: FlatShape[]): void {
+  for (const el of Array.from(tree.children)) {
+    const nv = Array.from(el.children).find((c) => c.localName.startsWith("nv"));
+    const cNvPr = nv ? child(nv, "cNvPr") : null;
+    if (!cNvPr) continue;
+
+    const xfrm = shapeXfrm(el);
+    const bounds = xfrm ? transform(xfrmBounds(xfrm)) : null;
+    const isPicture =
+      el.localName === "pic" ||
+      (el.localName === "sp" && !!child(el, "spPr") && descendants(el, "blip").length > 0);
+
+    out.push({
+      el,
+      name: cNvPr.getAttribute("name") ?? "",
+      hidden: cNvPr.getAttribute("hidden") === "1" || cNvPr.getAttribute("hidden") === "true",
+      isPicture,
+      bounds,
+    });
+
+    if (el.localName === "grpSp" && xfrm) {
+      flattenShapes(el, groupTransform(xfrm, transform), out);
+    }
+  }
+}
+
+/** A shape with an opaque solid fill, i.e. one that hides whatever is under it. */
+function isOpaqueFill(shape: Element): boolean {
+  const spPr = child(shape, "spPr");
+  const fill = spPr ? child(spPr, "solidFill") : null;
+  if (!fill) return false;
+  const alpha = descendants(fill, "alpha")[0];
+  return !alpha || num(alpha, "val") >= 100000;
+}
+
+function contains(outer: Bounds, inner: Bounds): boolean {
+  return (
+    outer.x <= inner.x &&
+    outer.y <= inner.y &&
+    outer.x + outer.width >= inner.x + inner.width &&
+    outer.y + outer.height >= inner.y + inner.height
+  );
+}
+
+function auditShapes(
+  doc: Document,
+  slide: number,
+  part: string,
+  slideSize: { width: number; height: number },
+  findings: LeakFinding[]
+): void {
+  const tree = descendants(doc, "spTree")[0];
+  if (!tree) return;
+  const shapes: FlatShape[] = [];
+  flattenShapes(tree, identity, shapes);
+
+  shapes.forEach((shape, index) => {
+    const kind = shape.isPicture ? "Picture" : "Shape";
+
+    if (shape.hidden) {
+      findings.push({
+        kind: "hidden-shape",
+        severity: shape.isPicture ? "high" : "medium",
+        slide,
+        part,
+        shapeName: shape.name,
+        message: `${kind} "${shape.name}" is hidden but still stored in the file.`,
+      });
+    }
+
+    const b = shape.bounds;
+    if (!b || shape.el.localName === "grpSp") return;
+
+    const fullyOff =
+      b.x + b.width <= 0 ||
+      b.y + b.height <= 0 ||
+      b.x >= slideSize.width ||
+      b.y >= slideSize.height;
+    const partlyOff =
+      b.x < 0 ||
+      b.y < 0 ||
+      b.x + b.width > slideSize.width ||
+      b.y + b.height > slideSize.height;
+
+    if (fullyOff) {
+      findings.push({
+        kind: "off-slide",
+        severity: shape.isPicture ? "high" : "medium",
+        slide,
+        part,
+        shapeName: shape.name,
+        message: `${kind} "${shape.name}" is placed entirely outside the slide.`,
+      });
+    } else if (partlyOff && shape.isPicture) {
+      findings.push({
+        kind: "off-slide",
+        severity: "low",
+        slide,
+        part,
+        shapeName: shape.name,
+        message: `Picture "${shape.name}" extends past the slide edge; the cut-off part is still in the image.`,
+      });
+    }
+
+    if (shape.isPicture && !shape.hidden) {
+      const cover = shapes
+        .slice(index + 1)
+        .find(
+          (s) =>
+            !s.hidden &&
+            s.bounds !== null &&
+            s.el.localName === "sp" &&
+            isOpaqueFill(s.el) &&
+            contains(s.bounds, b)
+        );
+      if (cover) {
+        findings.push({
+          kind: "covered-picture",
+          severity: "high",
+          slide,
+          part,
+          shapeName: shape.name,
+          message: `Picture "${shape.name}" is completely covered by "${cover.name}" — the picture underneath is intact. Redact it instead.`,
+        });
+      }
+    }
+  });
+}
+
+function textOf(root: Document | Element): string {
+  return descendants(root, "t")
+    .map((t) => t.textContent ?? "")
+    .join("")
+    .trim();
+}
+
+/** Text of a notes slide's body placeholder (not the slide image or number). */
+function notesText(doc: Document): string {
+  return descendants(doc, "sp")
+    .filter((sp) => descendants(sp, "ph").some((ph) => ph.getAttribute("type") === "body"))
+    .map(textOf)
+    .join("")
+    .trim();
+}
+
+/**
+ * Scan a .pptx for content that survives redaction and that secure export
+ * does not remove: hidden or off-slide shapes, covered pictures, hidden
+ * slides, speaker notes, comments and embedded objects.
+ */
+export async function auditPresentation(zip: JSZip): Promise<AuditReport> {
+  const findings: LeakFinding[] = [];
+  const parser = new DOMParser();
+  const parse = async (path: string): Promise<Document | null> => {
+    const file = zip.file(path);
+    if (!file) return null;
+    return parser.parseFromString(await file.async("string"), "application/xml");
+  };
+
+  const presentationPath = "ppt/presentation.xml";
+  const presentation = await parse(presentationPath);
+  if (!presentation) throw new Error("Not a PowerPoint file (ppt/presentation.xml missing).");
+
+  const sldSz = descendants(presentation, "sldSz")[0];
+  const slideSize = { width: num(sldSz, "cx"), height: num(sldSz, "cy") };
+
+  const slideParts = await slidePartsInOrder(zip);
+
+  for (const [i, part] of slideParts.entries()) {
+    const slide = i + 1;
+    const doc = await parse(part);
+    if (!doc) continue;
+
+    if (doc.documentElement.getAttribute("show") === "0") {
+      findings.push({
+        kind: "hidden-slide",
+        severity: "high",
+        slide,
+        part,
+        message: `Slide ${slide} is hidden from the slide show but still in the file.`,
+      });
+    }
+
+    if (slideSize.width > 0 && slideSize.height > 0) {
+      auditShapes(doc, slide, part, slideSize, findings);
+    }
+
+    for (const rel of await readRelationships(zip, part)) {
+      if (rel.external) continue;
+      const target = resolveTarget(part, rel.target);
+
+      if (rel.type.endsWith(REL_NOTES)) {
+        const notes = await parse(target);
+        const text = notes ? notesText(notes) : "";
+        if (text) {
+          findings.push({
+            kind: "speaker-notes",
+            severity: "medium",
+            slide,
+            part: target,
+            message: `Slide ${slide} has speaker notes (${text.length} characters).`,
+          });
+        }
+      } else if (REL_COMMENTS.some((t) => rel.type.endsWith(t))) {
+        const comments = await parse(target);
+        const count = comments ? descendants(comments, "cm").length : 0;
+        if (count > 0) {
+          findings.push({
+            kind: "comments",
+            severity: "medium",
+            slide,
+            part: target,
+            message: `Slide ${slide} has ${count} comment${count !== 1 ? "s" : ""}.`,
+          });
+        }
+      }
+    }
+  }
+
+  const embeddings = await listEmbeddings(zip);
+  for (const object of embeddings) {
+    const name = object.part.split("/").pop();
+    const where = embeddingLocation(object);
+    findings.push({
+      kind: "embedded-object",
+      severity: "high",
+      slide: object.slide,
+      part: object.part,
+      message:
+        object.kind === "chart-workbook"
+          ? `A chart on ${where} embeds its source workbook ${name}, which may hold more data than the chart shows.`
+          : object.kind === "unhandled"
+            ? `${where} embeds ${name}, which Secure Export cannot remove or convert; check it by hand.`
+            : `${where[0].toUpperCase()}${where.slice(1)} embeds ${object.label} (${name}), which may contain unredacted data.`,
+    });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    slideCount: slideParts.length,
+    findings,
+    embeddings,
+  };
+}
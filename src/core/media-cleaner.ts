@@ -1,4 +1,12 @@
 import JSZip from "jszip";
+import {
+  namesPart,
+  partKey,
+  partNameKey,
+  reachableParts,
+  readPackage,
+  relsPathFor,
+} from "./package-parts";
 
 export interface CleanupResult {
   orphanedFiles: string[];
@@ -8,79 +16,154 @@ export interface CleanupResult {
 }
 
 /**
- * Scan all .rels files in the PPTX ZIP to find referenced media files.
+ * Remove every part that cannot be reached from the package root through
+ * internal relationships — orphaned media, embeddings, slides, layouts —
+ * along with their .rels files and content-type overrides.
+ *
+ * Reachability is walked over the whole relationship graph, so media that is
+ * only referenced by an orphaned part (e.g. a deleted slide's leftover rels)
+ * is removed too, and external targets never count as references.
  */
-async function getReferencedMedia(zip: JSZip): Promise<Set<string>> {
-  const referencedMedia = new Set<string>();
-  const relsFiles = zip.file(/\.rels$/);
-
-  for (const relsFile of relsFiles) {
-    const content = await relsFile.async("string");
-    // Match both relative and absolute media references
-    const matches = content.matchAll(/Target="[^"]*?media\/([^"]+)"/g);
-    for (const m of matches) {
-      referencedMedia.add("ppt/media/" + m[1]);
-    }
-    // Also handle targets with ../ prefix
-    const relativeMatches = content.matchAll(
-      /Target="\.\.\/media\/([^"]+)"/g
-    );
-    for (const m of relativeMatches) {
-      referencedMedia.add("ppt/media/" + m[1]);
-    }
-  }
-
-  return referencedMedia;
-}
-
-/**
- * Remove orphaned media files from a PPTX ZIP and return cleanup stats.
- */
-export async function cleanOrphanedMedia(
+export async function cleanOrphanedParts(
   zip: JSZip
 ): Promise<CleanupResult> {
-  const referencedMedia = await getReferencedMedia(zip);
-  const allMedia = zip.file(/^ppt\/media\//);
+  const model = await readPackage(zip);
   const orphanedFiles: string[] = [];
 
-  for (const file of allMedia) {
-    if (!referencedMedia.has(file.name)) {
-      orphanedFiles.push(file.name);
-      zip.remove(file.name);
+  // Without a root relationship file nothing is reachable; don't guess
+  if (!model.relationships.has("")) {
+    return { orphanedFiles, removedCount: 0, originalSize: 0, cleanedSize: 0 };
+  }
+
+  const reachable = reachableParts(model);
+  for (const part of model.parts) {
+    if (reachable.has(part)) continue;
+    orphanedFiles.push(part);
+    zip.remove(part);
+    zip.remove(relsPathFor(part));
+  }
+
+  if (orphanedFiles.length > 0) {
+    const contentTypes = zip.file("[Content_Types].xml");
+    if (contentTypes) {
+      const removed = new Set(orphanedFiles.map(partKey));
+      const content = await contentTypes.async("string");
+      zip.file(
+        "[Content_Types].xml",
+        content.replace(/<Override\b[^>]*\/>/g, (override) => {
+          const name = override.match(/PartName="([^"]*)"/)?.[1];
+          return name && removed.has(partNameKey(name)) ? "" : override;
+        })
+      );
     }
   }
 
   return {
-    orphanedFiles,
+    orphanedFiles: orphanedFiles.sort(),
     removedCount: orphanedFiles.length,
     originalSize: 0, // Filled in by caller
     cleanedSize: 0,
   };
 }
 
+const THUMBNAIL_REL_TYPE =
+  "http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail";
+
+export interface ThumbnailCleanup {
+  path: string;
+  action: "removed" | "replaced";
+}
+
+/** Encodes a replacement image of the given MIME type. */
+export type PlaceholderFactory = (mimeType: string) => Promise<Blob>;
+
+const PLACEHOLDER_TYPES: Record<string, string> = {
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  png: "image/png",
+};
+
+/**
+ * Find the package thumbnail(s): targets of the thumbnail relationship in
+ * _rels/.rels, plus any docProps/thumbnail.* part left without one.
+ */
+async function findThumbnails(zip: JSZip): Promise<string[]> {
+  const paths = new Set<string>();
+  const rootRels = zip.file("_rels/.rels");
+  if (rootRels) {
+    const content = await rootRels.async("string");
+    for (const m of content.matchAll(/<Relationship\b[^>]*\/>/g)) {
+      if (!m[0].includes(`Type="${THUMBNAIL_REL_TYPE}"`)) continue;
+      const target = m[0].match(/Target="([^"]+)"/);
+      if (target) paths.add(target[1].replace(/^\//, ""));
+    }
+  }
+  for (const file of zip.file(/^docProps\/thumbnail\./)) {
+    paths.add(file.name);
+  }
+  return [...paths].filter((path) => zip.file(path) !== null);
+}
+
 /**
- * Strip metadata from docProps/core.xml (author, dates, etc.)
+ * Remove a thumbnail part along with its relationship and content-type entries.
  */
-export async function stripMetadata(zip: JSZip): Promise<boolean> {
-  const coreXml = zip.file("docProps/core.xml");
-  if (!coreXml) return false;
-
-  let content = await coreXml.async("string");
-
-  // Remove creator, lastModifiedBy, revision
-  content = content.replace(
-    /<dc:creator>[^<]*<\/dc:creator>/g,
-    "<dc:creator></dc:creator>"
-  );
-  content = content.replace(
-    /<cp:lastModifiedBy>[^<]*<\/cp:lastModifiedBy>/g,
-    "<cp:lastModifiedBy></cp:lastModifiedBy>"
-  );
-  content = content.replace(
-    /<cp:revision>[^<]*<\/cp:revision>/g,
-    "<cp:revision>1</cp:revision>"
-  );
-
-  zip.file("docProps/core.xml", content);
-  return true;
+async function removeThumbnail(zip: JSZip, path: string): Promise<void> {
+  zip.remove(path);
+
+  const rootRels = zip.file("_rels/.rels");
+  if (rootRels) {
+    let content = await rootRels.async("string");
+    content = content.replace(/<Relationship\b[^>]*\/>/g, (rel) =>
+      rel.includes(`Type="${THUMBNAIL_REL_TYPE}"`) ? "" : rel
+    );
+    zip.file("_rels/.rels", content);
+  }
+
+  const contentTypes = zip.file("[Content_Types].xml");
+  if (contentTypes) {
+    let content = await contentTypes.async("string");
+    content = content.replace(/<Override\b[^>]*\/>/g, (override) =>
+      namesPart(override.match(/PartName="([^"]*)"/)?.[1] ?? "", path) ? "" : override
+    );
+
+    // Drop the extension default too if no other part still uses it
+    const ext = path.split(".").pop()?.toLowerCase() ?? "";
+    const stillUsed = zip
+      .file(/./)
+      .some((f) => f.name.toLowerCase().endsWith(`.${ext}`));
+    if (ext && !stillUsed) {
+      content = content.replace(/<Default\b[^>]*\/>/g, (def) =>
+        def.toLowerCase().includes(`extension="${ext}"`) ? "" : def
+      );
+    }
+    zip.file("[Content_Types].xml", content);
+  }
+}
+
+/**
+ * Neutralize the docProps thumbnail — a preview of slide 1 rendered before
+ * redaction, which file browsers display. With a placeholder factory, JPEG and
+ * PNG thumbnails are overwritten with a blank image; otherwise (or for other
+ * formats such as WMF) the part is removed from the package.
+ */
+export async function cleanThumbnail(
+  zip: JSZip,
+  placeholder: PlaceholderFactory | null
+): Promise<ThumbnailCleanup[]> {
+  const results: ThumbnailCleanup[] = [];
+
+  for (const path of await findThumbnails(zip)) {
+    const ext = path.split(".").pop()?.toLowerCase() ?? "";
+    const mimeType = PLACEHOLDER_TYPES[ext];
+
+    if (placeholder && mimeType) {
+      zip.file(path, await placeholder(mimeType));
+      results.push({ path, action: "replaced" });
+    } else {
+      await removeThumbnail(zip, path);
+      results.push({ path, action: "removed" });
+    }
+  }
+
+  return results;
 }
@@ -0,0 +1,290 @@
+import JSZip from "jszip";
+import { concatUint8Arrays } from "../utils/file-helpers";
+
+/**
+ * Byte-level removal of metadata from embedded images. Only metadata segments
+ * are dropped; image data is copied through untouched, so pixels are
+ * byte-identical after decoding.
+ */
+
+export type MetadataKind = "exif" | "xmp" | "iptc" | "comment" | "text" | "other";
+
+export type MetadataCounts = Record<MetadataKind, number>;
+
+export interface MediaSanitizeResult {
+  /** Media files that had at least one metadata segment removed */
+  cleanedFiles: string[];
+  /** Removed segments, by metadata type */
+  counts: MetadataCounts;
+}
+
+function emptyCounts(): MetadataCounts {
+  return { exif: 0, xmp: 0, iptc: 0, comment: 0, text: 0, other: 0 };
+}
+
+function startsWithAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+// --- JPEG ---
+
+const JPEG_SOI = 0xd8;
+const JPEG_EOI = 0xd9;
+const JPEG_SOS = 0xda;
+const JPEG_APP0 = 0xe0;
+const JPEG_APP1 = 0xe1;
+const JPEG_APP2 = 0xe2;
+const JPEG_APP13 = 0xed;
+const JPEG_APP14 = 0xee;
+const JPEG_APP15 = 0xef;
+const JPEG_COM = 0xfe;
+
+/** Classify an APPn/COM segment, or null to keep it. */
+function jpegMetadataKind(
+  marker: number,
+  bytes: Uint8Array,
+  payload: number
+): MetadataKind | null {
+  if (marker === JPEG_COM) return "comment";
+  if (marker === JPEG_APP1) {
+    if (startsWithAscii(bytes, payload, "Exif\0")) return "exif";
+    if (startsWithAscii(bytes, payload, "http://ns.adobe.com/")) return "xmp";
+    return "other";
+  }
+  if (marker === JPEG_APP13) return "iptc";
+  // ICC colour profiles (APP2) and JFIF/Adobe colour info (APP0/APP14) affect
+  // decoding; everything else in APPn is vendor or multi-picture metadata
+  if (marker === JPEG_APP2) {
+    return startsWithAscii(bytes, payload, "ICC_PROFILE\0") ? null : "other";
+  }
+  if (marker === JPEG_APP0 || marker === JPEG_APP14) return null;
+  if (marker > JPEG_APP0 && marker <= JPEG_APP15) return "other";
+  return null;
+}
+
+/** End of an entropy-coded segment: the next marker that is not stuffing or RSTn. */
+function scanEntropyData(bytes: Uint8Array, start: number): number {
+  let i = start;
+  while (i < bytes.length - 1) {
+    if (bytes[i] === 0xff) {
+      const next = bytes[i + 1];
+      if (next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) {
+        return i;
+      }
+    }
+    i++;
+  }
+  return bytes.length;
+}
+
+function sanitizeJpeg(bytes: Uint8Array, counts: MetadataCounts): Uint8Array | null {
+  if (bytes[0] !== 0xff || bytes[1] !== JPEG_SOI) return null;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let removed = 0;
+  let i = 2;
+
+  while (i + 1 < bytes.length) {
+    if (bytes[i] !== 0xff) return null; // Not a marker — don't guess
+    const marker = bytes[i + 1];
+    if (marker === 0xff) {
+      i++; // Fill byte
+      continue;
+    }
+    if (marker === JPEG_EOI) {
+      kept.push(bytes.subarray(i, i + 2));
+      // Anything after EOI (e.g. appended preview images) is not part of the picture
+      if (i + 2 < bytes.length) {
+        counts.other++;
+        removed++;
+      }
+      i = bytes.length;
+      break;
+    }
+
+    const length = (bytes[i + 2] << 8) | bytes[i + 3];
+    const end = i + 2 + length;
+    if (length < 2 || end > bytes.length) return null;
+
+    if (marker === JPEG_SOS) {
+      const dataEnd = scanEntropyData(bytes, end);
+      kept.push(bytes.subarray(i, dataEnd));
+      i = dataEnd;
+      continue;
+    }
+
+    const kind = jpegMetadataKind(marker, bytes, i + 4);
+    if (kind) {
+      counts[kind]++;
+      removed++;
+    } else {
+      kept.push(bytes.subarray(i, end));
+    }
+    i = end;
+  }
+
+  return removed > 0 ? concatUint8Arrays(kept) : null;
+}
+
+// --- PNG ---
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const PNG_METADATA_CHUNKS: Record<string, MetadataKind> = {
+  tEXt: "text",
+  zTXt: "text",
+  iTXt: "text",
+  eXIf: "exif",
+  tIME: "other",
+};
+
+function sanitizePng(bytes: Uint8Array, counts: MetadataCounts): Uint8Array | null {
+  if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return null;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let removed = 0;
+  let i = 8;
+
+  while (i + 8 <= bytes.length) {
+    const length =
+      ((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]) >>> 0;
+    const type = String.fromCharCode(...bytes.subarray(i + 4, i + 8));
+    const end = i + 12 + length;
+    if (end > bytes.length) return null;
+
+    // iTXt with an XMP keyword is the standard place for XMP in PNG
+    let kind = PNG_METADATA_CHUNKS[type] ?? null;
+    if (type === "iTXt" && startsWithAscii(bytes, i + 8, "XML:com.adobe.xmp")) {
+      kind = "xmp";
+    }
+
+    if (kind) {
+      counts[kind]++;
+      removed++;
+    } else {
+      kept.push(bytes.subarray(i, end));
+    }
+    i = end;
+    if (type === "IEND") break;
+  }
+
+  if (i < bytes.length) {
+    counts.other++;
+    removed++;
+  }
+
+  return removed > 0 ? concatUint8Arrays(kept) : null;
+}
+
+// --- GIF ---
+
+/** Skip a run of GIF data sub-blocks, returning the offset after the terminator. */
+function skipSubBlocks(bytes: Uint8Array, start: number): number {
+  let i = start;
+  while (i < bytes.length && bytes[i] !== 0) {
+    i += bytes[i] + 1;
+  }
+  return i + 1;
+}
+
+function sanitizeGif(bytes: Uint8Array, counts: MetadataCounts): Uint8Array | null {
+  if (!startsWithAscii(bytes, 0, "GIF8")) return null;
+
+  // Header (6) + logical screen descriptor (7) + optional global colour table
+  let i = 13;
+  if (bytes[10] & 0x80) i += 3 * (1 << ((bytes[10] & 0x07) + 1));
+  const kept: Uint8Array[] = [bytes.subarray(0, i)];
+  let removed = 0;
+
+  while (i < bytes.length) {
+    const block = bytes[i];
+    if (block === 0x3b) {
+      kept.push(bytes.subarray(i, i + 1));
+      i++;
+      break;
+    }
+
+    if (block === 0x2c) {
+      // Image descriptor, optional local colour table, LZW code size, data
+      let end = i + 10;
+      if (bytes[i + 9] & 0x80) end += 3 * (1 << ((bytes[i + 9] & 0x07) + 1));
+      end = skipSubBlocks(bytes, end + 1);
+      kept.push(bytes.subarray(i, end));
+      i = end;
+      continue;
+    }
+
+    if (block !== 0x21) return null;
+    const label = bytes[i + 1];
+    const end = skipSubBlocks(bytes, i + 2);
+
+    let kind: MetadataKind | null = null;
+    if (label === 0xfe) {
+      kind = "comment";
+    } else if (label === 0xff) {
+      // Keep the looping extensions; drop XMP and other application data
+      const isLoop =
+        startsWithAscii(bytes, i + 3, "NETSCAPE2.0") ||
+        startsWithAscii(bytes, i + 3, "ANIMEXTS1.0");
+      if (!isLoop) kind = startsWithAscii(bytes, i + 3, "XMP Data") ? "xmp" : "other";
+    }
+
+    if (kind) {
+      counts[kind]++;
+      removed++;
+    } else {
+      kept.push(bytes.subarray(i, end));
+    }
+    i = end;
+  }
+
+  if (i < bytes.length) {
+    counts.other++;
+    removed++;
+  }
+
+  return removed > 0 ? concatUint8Arrays(kept) : null;
+}
+
+const SANITIZERS: Record<
+  string,
+  (bytes: Uint8Array, counts: MetadataCounts) => Uint8Array | null
+> = {
+  jpg: sanitizeJpeg,
+  jpeg: sanitizeJpeg,
+  png: sanitizePng,
+  gif: sanitizeGif,
+};
+
+/**
+ * Rewrite every JPEG, PNG and GIF in ppt/media/ without EXIF, XMP, IPTC,
+ * comments and text chunks (GPS positions, camera serials, software names).
+ * Files that fail to parse are left as they are.
+ */
+export async function sanitizeMedia(zip: JSZip): Promise<MediaSanitizeResult> {
+  const counts = emptyCounts();
+  const cleanedFiles: string[] = [];
+
+  for (const file of zip.file(/^ppt\/media\//)) {
+    const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+    const sanitize = SANITIZERS[ext];
+    if (!sanitize) continue;
+
+    // Count into a scratch record so a half-parsed file doesn't skew totals
+    const fileCounts = emptyCounts();
+    const cleaned = sanitize(await file.async("uint8array"), fileCounts);
+    if (!cleaned) continue;
+
+    zip.file(file.name, cleaned);
+    cleanedFiles.push(file.name);
+    for (const kind of Object.keys(counts) as MetadataKind[]) {
+      counts[kind] += fileCounts[kind];
+    }
+  }
+
+  return { cleanedFiles, counts };
+}
@@ -1,50 +1,147 @@
-import type { ShapeImageInfo } from "../types/office";
+import JSZip from "jszip";
+import type {
+  ReplacementWarning,
+  ScanScope,
+  ShapeImageInfo,
+  ShapeLocation,
+} from "../types/office";
 import { concatUint8Arrays } from "../utils/file-helpers";
+import { slidePartsInOrder } from "./package-parts";
+
+type AnyShapeCollection = PowerPoint.ShapeCollection | PowerPoint.ShapeScopedCollection;
 
 /**
- * Get all picture shapes from the currently selected slide.
+ * Extract every picture-like shape from a shape collection, descending into
+ * groups. Pictures in placeholders are included; empty placeholders are not.
  */
-export async function getSlideImages(): Promise<ShapeImageInfo[]> {
-  return PowerPoint.run(async (context) => {
-    const slides = context.presentation.getSelectedSlides();
-    slides.load("items");
-    await context.sync();
+async function collectImages(
+  context: PowerPoint.RequestContext,
+  shapes: AnyShapeCollection,
+  slide: { id: string; index: number },
+  location: ShapeLocation
+): Promise<ShapeImageInfo[]> {
+  shapes.load(
+    "items/id,items/name,items/type,items/left,items/top,items/width,items/height"
+  );
+  await context.sync();
 
-    if (slides.items.length === 0) return [];
+  const results: ShapeImageInfo[] = [];
 
-    const slide = slides.items[0];
-    const shapes = slide.shapes;
-    shapes.load(
-      "items/id,items/name,items/type,items/left,items/top,items/width,items/height"
-    );
-    await context.sync();
+  for (const shape of shapes.items) {
+    if (shape.type === PowerPoint.ShapeType.group) {
+      results.push(
+        ...(await collectImages(context, shape.group.shapes, slide, {
+          ...location,
+          groups: [...location.groups, { id: shape.id, name: shape.name }],
+        }))
+      );
+      continue;
+    }
 
     // Try getImageAsBase64() on Image and GeometricShape types
     // GeometricShapes may have image fills (e.g. from previous blur operations)
-    const candidateShapes = shapes.items.filter(
-      (s) =>
-        s.type === PowerPoint.ShapeType.image ||
-        s.type === PowerPoint.ShapeType.geometricShape
-    );
+    const placeholder = shape.type === PowerPoint.ShapeType.placeholder;
+    if (placeholder) {
+      const format = shape.placeholderFormat;
+      format.load("containedType");
+      await context.sync();
+      if (format.containedType !== PowerPoint.ShapeType.image) continue;
+    } else if (
+      shape.type !== PowerPoint.ShapeType.image &&
+      shape.type !== PowerPoint.ShapeType.geometricShape
+    ) {
+      continue;
+    }
+
+    try {
+      const base64Result = shape.getImageAsBase64();
+      await context.sync();
+
+      results.push({
+        id: shape.id,
+        name: shape.name,
+        left: shape.left,
+        top: shape.top,
+        width: shape.width,
+        height: shape.height,
+        base64: base64Result.value,
+        slideId: slide.id,
+        slideIndex: slide.index,
+        location: { ...location, placeholder },
+      });
+    } catch {
+      // Shape doesn't contain an extractable image, skip
+    }
+  }
+
+  return results;
+}
 
+/**
+ * Get all picture shapes from the currently selected slide,
+ * or from every slide in the deck when `scope` is "deck". With
+ * `includeLayouts`, pictures on the slides' layouts and masters are
+ * included too, each listed once under the first slide that uses it.
+ */
+export async function getSlideImages(
+  scope: ScanScope = "selected",
+  includeLayouts = false
+): Promise<ShapeImageInfo[]> {
+  return PowerPoint.run(async (context) => {
+    const slides =
+      scope === "deck"
+        ? context.presentation.slides
+        : context.presentation.getSelectedSlides();
+    slides.load("items/id,items/index");
+    await context.sync();
+
+    if (slides.items.length === 0) return [];
+
+    const targets = scope === "deck" ? slides.items : [slides.items[0]];
     const results: ShapeImageInfo[] = [];
+    const scannedHosts = new Set<string>();
 
-    for (const shape of candidateShapes) {
-      try {
-        const base64Result = shape.getImageAsBase64();
-        await context.sync();
+    for (const slide of targets) {
+      const owner = { id: slide.id, index: slide.index };
+      results.push(
+        ...(await collectImages(context, slide.shapes, owner, {
+          host: "slide",
+          groups: [],
+          placeholder: false,
+        }))
+      );
 
-        results.push({
-          id: shape.id,
-          name: shape.name,
-          left: shape.left,
-          top: shape.top,
-          width: shape.width,
-          height: shape.height,
-          base64: base64Result.value,
-        });
-      } catch {
-        // Shape doesn't contain an extractable image, skip
+      if (!includeLayouts) continue;
+
+      const { layout, slideMaster } = slide;
+      layout.load("id,name");
+      slideMaster.load("id,name");
+      await context.sync();
+
+      if (!scannedHosts.has(`layout:${layout.id}`)) {
+        scannedHosts.add(`layout:${layout.id}`);
+        results.push(
+          ...(await collectImages(context, layout.shapes, owner, {
+            host: "layout",
+            masterId: slideMaster.id,
+            layoutId: layout.id,
+            hostName: layout.name,
+            groups: [],
+            placeholder: false,
+          }))
+        );
+      }
+      if (!scannedHosts.has(`master:${slideMaster.id}`)) {
+        scannedHosts.add(`master:${slideMaster.id}`);
+        results.push(
+          ...(await collectImages(context, slideMaster.shapes, owner, {
+            host: "master",
+            masterId: slideMaster.id,
+            hostName: slideMaster.name,
+            groups: [],
+            placeholder: false,
+          }))
+        );
       }
     }
 
@@ -52,42 +149,385 @@ export async function getSlideImages(): Promise<ShapeImageInfo[]> {
   });
 }
 
+/**
+ * Select a slide in the PowerPoint window so the user can see it.
+ */
+export async function goToSlide(slideId: string): Promise<void> {
+  return PowerPoint.run(async (context) => {
+    context.presentation.setSelectedSlides([slideId]);
+    await context.sync();
+  });
+}
+
+/** The top-level shape collection of the slide, layout or master holding an image. */
+function hostShapes(
+  context: PowerPoint.RequestContext,
+  image: ShapeImageInfo
+): PowerPoint.ShapeCollection {
+  const { location } = image;
+  if (location.host === "slide") {
+    return context.presentation.slides.getItem(image.slideId).shapes;
+  }
+  const master = context.presentation.slideMasters.getItem(location.masterId);
+  return location.host === "layout"
+    ? master.layouts.getItem(location.layoutId).shapes
+    : master.shapes;
+}
+
+/** Step a shape up or down the z-order until it sits at `position`. */
+async function moveToZOrder(
+  context: PowerPoint.RequestContext,
+  shape: PowerPoint.Shape,
+  position: number
+): Promise<void> {
+  shape.load("zOrderPosition");
+  await context.sync();
+  const step =
+    shape.zOrderPosition > position
+      ? PowerPoint.ShapeZOrder.sendBackward
+      : PowerPoint.ShapeZOrder.bringForward;
+  for (let n = Math.abs(shape.zOrderPosition - position); n > 0; n--) {
+    shape.setZOrder(step);
+  }
+}
+
+/** Move a shape so it sits directly below another one in the z-order. */
+async function placeBelow(
+  context: PowerPoint.RequestContext,
+  shape: PowerPoint.Shape,
+  above: PowerPoint.Shape
+): Promise<void> {
+  shape.load("zOrderPosition");
+  above.load("zOrderPosition");
+  await context.sync();
+  const target =
+    shape.zOrderPosition > above.zOrderPosition
+      ? above.zOrderPosition
+      : above.zOrderPosition - 1;
+  await moveToZOrder(context, shape, target);
+}
+
+/**
+ * Replace a top-level picture shape with a new rectangle filled with the
+ * processed image, carrying over its name, alt text, rotation, click
+ * hyperlink and z-order position. Returns the id of the new shape.
+ */
+async function replaceTopLevelShape(
+  context: PowerPoint.RequestContext,
+  shapes: PowerPoint.ShapeCollection,
+  shapeId: string,
+  processedBase64: string,
+  hyperlinks: PowerPoint.HyperlinkCollection | null
+): Promise<string> {
+  const oldShape = shapes.getItem(shapeId);
+  oldShape.load(
+    "id,left,top,width,height,name,altTextTitle,altTextDescription,isDecorative,rotation,zOrderPosition"
+  );
+  hyperlinks?.load("items/address,items/screenTip,items/type");
+  await context.sync();
+
+  // Find the hyperlink attached to the shape itself (not to its text)
+  const shapeLinks = (hyperlinks?.items ?? [])
+    .filter((link) => link.type === PowerPoint.HyperlinkType.shape)
+    .map((link) => ({ link, shape: link.getLinkedShapeOrNullObject() }));
+  shapeLinks.forEach(({ shape }) => shape.load("id"));
+  await context.sync();
+  const hyperlink = shapeLinks.find(
+    ({ shape }) => !shape.isNullObject && shape.id === oldShape.id
+  )?.link;
+
+  const { left, top, width, height } = oldShape;
+
+  // Create new rectangle at same position
+  const newShape = shapes.addGeometricShape(
+    PowerPoint.GeometricShapeType.rectangle,
+    { left, top, width, height }
+  );
+
+  // Set fill to processed image
+  newShape.fill.setImage(processedBase64);
+
+  // Remove border (geometric shapes have borders by default)
+  newShape.lineFormat.visible = false;
+
+  // Carry over identity, so Selection Pane names, screen readers and
+  // anything matching on the name keep working
+  newShape.name = oldShape.name;
+  newShape.altTextTitle = oldShape.altTextTitle;
+  newShape.altTextDescription = oldShape.altTextDescription;
+  newShape.isDecorative = oldShape.isDecorative;
+  newShape.rotation = oldShape.rotation;
+  if (hyperlink) {
+    newShape.setHyperlink({
+      address: hyperlink.address,
+      screenTip: hyperlink.screenTip,
+    });
+  }
+
+  // New shapes go on top; step down to just above the original, which leaves
+  // the new shape exactly in its place once the original is deleted
+  await moveToZOrder(context, newShape, oldShape.zOrderPosition + 1);
+
+  // Delete original picture shape
+  oldShape.delete();
+
+  newShape.load("id");
+  await context.sync();
+  return newShape.id;
+}
+
+interface GroupSnapshot {
+  id: string;
+  name: string;
+  altTextTitle: string;
+  altTextDescription: string;
+  zOrderPosition: number;
+  memberIds: string[];
+}
+
+/**
+ * Group the members of `groups[index]` again, with `newId` standing in for
+ * the member `replacedId` that was replaced, and give the group back its name
+ * and alt text.
+ */
+async function rebuildGroup(
+  context: PowerPoint.RequestContext,
+  shapes: PowerPoint.ShapeCollection,
+  groups: GroupSnapshot[],
+  index: number,
+  replacedId: string,
+  newId: string
+): Promise<PowerPoint.Shape> {
+  const group = groups[index];
+  const memberIds = group.memberIds.map((id) => (id === replacedId ? newId : id));
+  const rebuilt = shapes.addGroup(memberIds);
+  rebuilt.name = group.name;
+  rebuilt.altTextTitle = group.altTextTitle;
+  rebuilt.altTextDescription = group.altTextDescription;
+  rebuilt.load("id");
+  await context.sync();
+  return rebuilt;
+}
+
+/** Move a rebuilt group back to its place among its siblings. */
+async function restoreGroupOrder(
+  context: PowerPoint.RequestContext,
+  shapes: PowerPoint.ShapeCollection,
+  groups: GroupSnapshot[],
+  index: number,
+  rebuilt: PowerPoint.Shape
+): Promise<void> {
+  // Members are listed back to front
+  const group = groups[index];
+  const parent = groups[index - 1];
+  if (parent) {
+    const above = parent.memberIds[parent.memberIds.indexOf(group.id) + 1];
+    if (above) await placeBelow(context, rebuilt, shapes.getItem(above));
+  } else {
+    await moveToZOrder(context, rebuilt, group.zOrderPosition);
+  }
+  await context.sync();
+}
+
 /**
  * Replace a picture shape with a new rectangle filled with the processed image.
+ * The shape is looked up on its own slide, layout or master, which need not be
+ * the selected slide. The new shape takes over the original's name, alt text,
+ * rotation, click hyperlink and z-order position; see getReplacementWarnings
+ * for what is lost.
+ *
+ * Office.js cannot add a shape to an existing group, so for a shape inside
+ * groups the groups are ungrouped, the shape is replaced, and the groups are
+ * rebuilt around the new shape with their names and alt text. If the
+ * replacement fails part-way, the groups are rebuilt around whatever shape is
+ * there before the error is rethrown.
+ *
+ * Returns the new id of the shape and of each rebuilt group, keyed by old id,
+ * so later replacements in the same groups can still find them.
  */
 export async function replaceImageShape(
-  shapeId: string,
+  image: ShapeImageInfo,
   processedBase64: string
-): Promise<void> {
+): Promise<Record<string, string>> {
   return PowerPoint.run(async (context) => {
-    const slide = context.presentation.getSelectedSlides().getItemAt(0);
-    const shapes = slide.shapes;
-    const oldShape = shapes.getItem(shapeId);
+    const shapes = hostShapes(context, image);
+    const hyperlinks =
+      image.location.host === "slide"
+        ? context.presentation.slides.getItem(image.slideId).hyperlinks
+        : null;
 
-    oldShape.load("left,top,width,height");
-    await context.sync();
+    // Record each enclosing group, outermost first, before taking it apart
+    const groups: GroupSnapshot[] = [];
+    let scope: AnyShapeCollection = shapes;
+    for (const { id } of image.location.groups) {
+      const groupShape: PowerPoint.Shape = scope.getItem(id);
+      groupShape.load("id,name,altTextTitle,altTextDescription,zOrderPosition");
+      const members = groupShape.group.shapes;
+      members.load("items/id");
+      await context.sync();
+      groups.push({
+        id: groupShape.id,
+        name: groupShape.name,
+        altTextTitle: groupShape.altTextTitle,
+        altTextDescription: groupShape.altTextDescription,
+        zOrderPosition: groupShape.zOrderPosition,
+        memberIds: members.items.map((m) => m.id),
+      });
+      scope = members;
+    }
 
-    const { left, top, width, height } = oldShape;
+    // Ungrouping the outer group makes the next one top-level, and so on.
+    // `pending` counts the groups, from the outermost, that are currently
+    // taken apart; `replacedId` and `newId` track the innermost member that
+    // has been swapped for a new shape
+    let pending = 0;
+    let replacedId = image.id;
+    let newId = image.id;
+    try {
+      for (const group of groups) {
+        shapes.getItem(group.id).group.ungroup();
+        await context.sync();
+        pending++;
+      }
 
-    // Create new rectangle at same position
-    const newShape = shapes.addGeometricShape(
-      PowerPoint.GeometricShapeType.rectangle,
-      { left, top, width, height }
-    );
+      newId = await replaceTopLevelShape(
+        context,
+        shapes,
+        image.id,
+        processedBase64,
+        hyperlinks
+      );
+      const newIds: Record<string, string> = { [replacedId]: newId };
 
-    // Set fill to processed image
-    newShape.fill.setImage(processedBase64);
+      // Rebuild from the innermost group out, swapping in the new shape (and
+      // then each rebuilt group) for the one it replaced
+      for (let i = groups.length - 1; i >= 0; i--) {
+        const rebuilt = await rebuildGroup(context, shapes, groups, i, replacedId, newId);
+        pending = i;
+        replacedId = groups[i].id;
+        newId = rebuilt.id;
+        newIds[replacedId] = newId;
+        await restoreGroupOrder(context, shapes, groups, i, rebuilt);
+      }
 
-    // Remove border (geometric shapes have borders by default)
-    newShape.lineFormat.visible = false;
+      return newIds;
+    } catch (err) {
+      // Put back the groups still taken apart, so a failed replacement does
+      // not leave the slide ungrouped
+      try {
+        for (let i = pending - 1; i >= 0; i--) {
+          const rebuilt = await rebuildGroup(context, shapes, groups, i, replacedId, newId);
+          replacedId = groups[i].id;
+          newId = rebuilt.id;
+          await restoreGroupOrder(context, shapes, groups, i, rebuilt);
+        }
+      } catch {
+        // Report the original failure rather than this one
+      }
+      throw err;
+    }
+  });
+}
 
-    await context.sync();
+/**
+ * Number of animation effects in a slide's timing tree that target a shape,
+ * given the shape's ids as they appear in the slide XML.
+ */
+function countAnimationEffects(slideXml: string, shapeIds: Set<string>): number {
+  const timing = slideXml.match(/<p:timing\b[\s\S]*?<\/p:timing>/)?.[0];
+  if (!timing || shapeIds.size === 0) return 0;
 
-    // Delete original picture shape
-    oldShape.delete();
+  // Each effect starts at a time node with a presetClass (entr, exit, emph, path)
+  const effects = timing.split(/(?=<p:cTn\b[^>]*\bpresetClass=)/).slice(1);
+  return effects.filter((effect) =>
+    [...effect.matchAll(/<p:spTgt\b[^>]*\bspid="([^"]+)"/g)].some((m) =>
+      shapeIds.has(m[1])
+    )
+  ).length;
+}
 
+/** Export a slide on its own and read its XML. */
+async function exportSlideXml(slideId: string): Promise<string> {
+  const exported = await PowerPoint.run(async (context) => {
+    const result = context.presentation.slides.getItem(slideId).exportAsBase64();
     await context.sync();
+    return result.value;
   });
+  const zip = await JSZip.loadAsync(exported, { base64: true });
+  const [slidePart] = await slidePartsInOrder(zip);
+  return (slidePart && (await zip.file(slidePart)?.async("string"))) || "";
+}
+
+/**
+ * List what replaceImageShape cannot preserve for a shape: animation effects
+ * on it or its groups (Office.js cannot create them, and deleting the
+ * original drops them), the group objects themselves (they are rebuilt), and
+ * placeholder behavior.
+ *
+ * Checking animations exports the slide; pass the same `exportedSlides` map
+ * when checking several images so each slide is exported only once.
+ */
+export async function getReplacementWarnings(
+  image: ShapeImageInfo,
+  exportedSlides = new Map<string, Promise<string>>()
+): Promise<ReplacementWarning[]> {
+  const { groups, placeholder, host } = image.location;
+  const warnings: ReplacementWarning[] = [];
+
+  if (groups.length > 0) {
+    const group = groups[groups.length - 1];
+    warnings.push({
+      kind: "group",
+      message: `"${image.name}" is in group "${group.name}". The group will be ungrouped and rebuilt around the redacted image, so settings on the group itself other than its name and alt text are lost.`,
+    });
+  }
+
+  if (placeholder) {
+    warnings.push({
+      kind: "placeholder",
+      message: `"${image.name}" is a picture placeholder. The redacted image replaces it with a regular shape that no longer follows its layout.`,
+    });
+  }
+
+  // Only slides can be exported to read their animations
+  if (host !== "slide") return warnings;
+
+  let slideXml = exportedSlides.get(image.slideId);
+  if (!slideXml) {
+    slideXml = exportSlideXml(image.slideId);
+    exportedSlides.set(image.slideId, slideXml);
+  }
+
+  // The timing tree refers to shapes by their XML id; match on the shape id,
+  // or on the name when the id is not the XML one. Names need not be unique,
+  // so a name shared by several shapes matches none of them
+  const xml = await slideXml;
+  const shapeIds: { id: string; name: string | undefined }[] = [];
+  for (const m of xml.matchAll(/<p:cNvPr\b[^>]*>/g)) {
+    const id = m[0].match(/\bid="([^"]+)"/)?.[1];
+    const name = m[0].match(/\bname="([^"]*)"/)?.[1];
+    if (id) shapeIds.push({ id, name });
+  }
+  const ids = new Set<string>();
+  for (const target of [{ id: image.id, name: image.name }, ...groups]) {
+    if (shapeIds.some((s) => s.id === target.id)) {
+      ids.add(target.id);
+      continue;
+    }
+    const named = shapeIds.filter((s) => s.name === target.name);
+    if (named.length === 1) ids.add(named[0].id);
+  }
+
+  const effects = countAnimationEffects(xml, ids);
+  if (effects > 0) {
+    const target = groups.length > 0 ? `"${image.name}" or its group` : `"${image.name}"`;
+    warnings.push({
+      kind: "animation",
+      message: `${target} has ${effects} animation effect${effects !== 1 ? "s" : ""}, which will be removed.`,
+    });
+  }
+
+  return warnings;
 }
 
 /**
@@ -158,6 +598,21 @@ export function getFileAsync(): Promise<Uint8Array> {
   });
 }
 
+/**
+ * File name of the open presentation, with a fallback for unsaved documents.
+ */
+export function getDocumentFileName(): string {
+  const url = Office.context.document.url ?? "";
+  const last = url.split(/[\\/]/).pop() ?? "";
+  let name = last;
+  try {
+    name = decodeURIComponent(last);
+  } catch {
+    // Not percent-encoded; use as-is
+  }
+  return name || "Presentation.pptx";
+}
+
 /**
  * Check if the required PowerPoint API version is available.
  */
@@ -170,12 +625,17 @@ export function checkApiSupport(): {
   if (
     !Office.context.requirements.isSetSupported("PowerPointApi", "1.10")
   ) {
-    missingApis.push("PowerPointApi 1.10 (getImageAsBase64)");
+    missingApis.push("PowerPointApi 1.10 (getImageAsBase64, alt text, rotation)");
   }
   if (
     !Office.context.requirements.isSetSupported("PowerPointApi", "1.8")
   ) {
-    missingApis.push("PowerPointApi 1.8 (setImage)");
+    missingApis.push("PowerPointApi 1.8 (setImage, z-order)");
+  }
+  if (
+    !Office.context.requirements.isSetSupported("PowerPointApi", "1.5")
+  ) {
+    missingApis.push("PowerPointApi 1.5 (setSelectedSlides)");
   }
   if (
     !Office.context.requirements.isSetSupported("PowerPointApi", "1.4")
@@ -0,0 +1,349 @@
+import JSZip from "jszip";
+
+/**
+ * Helpers for navigating the OPC package inside a .pptx: parts, their
+ * relationship files and [Content_Types].xml.
+ */
+
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  external: boolean;
+  /** The raw <Relationship .../> element, for in-place edits */
+  xml: string;
+}
+
+/** Path of the .rels file that holds a part's relationships. */
+export function relsPathFor(partPath: string): string {
+  const slash = partPath.lastIndexOf("/");
+  const dir = slash >= 0 ? partPath.slice(0, slash + 1) : "";
+  const name = partPath.slice(slash + 1);
+  return `${dir}_rels/${name}.rels`;
+}
+
+/** Resolve a relationship target (relative to its source part) to a ZIP path. */
+export function resolveTarget(partPath: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+
+  const segments = partPath.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") segments.pop();
+    else if (segment !== "." && segment !== "") segments.push(segment);
+  }
+  return segments.join("/");
+}
+
+function attr(element: string, name: string): string | null {
+  const match = element.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+/** Parse the <Relationship> elements out of a .rels file. */
+export function parseRelationships(relsXml: string): Relationship[] {
+  const relationships: Relationship[] = [];
+  for (const m of relsXml.matchAll(/<Relationship\b[^>]*\/>/g)) {
+    relationships.push({
+      id: attr(m[0], "Id") ?? "",
+      type: attr(m[0], "Type") ?? "",
+      target: attr(m[0], "Target") ?? "",
+      external: attr(m[0], "TargetMode") === "External",
+      xml: m[0],
+    });
+  }
+  return relationships;
+}
+
+/** Read and parse a part's relationships; empty if it has none. */
+export async function readRelationships(
+  zip: JSZip,
+  partPath: string
+): Promise<Relationship[]> {
+  const rels = zip.file(relsPathFor(partPath));
+  if (!rels) return [];
+  return parseRelationships(await rels.async("string"));
+}
+
+/** Pick a relationship id that is not used yet, in PowerPoint's rIdN style. */
+export function nextRelationshipId(relationships: Relationship[]): string {
+  const used = new Set(relationships.map((r) => r.id));
+  let n = relationships.length + 1;
+  while (used.has(`rId${n}`)) n++;
+  return `rId${n}`;
+}
+
+/** Pick a ZIP path that does not exist yet by suffixing the file name. */
+export function uniquePartPath(zip: JSZip, path: string, suffix: string): string {
+  const dot = path.lastIndexOf(".");
+  const stem = dot >= 0 ? path.slice(0, dot) : path;
+  const ext = dot >= 0 ? path.slice(dot) : "";
+  let candidate = `${stem}-${suffix}${ext}`;
+  for (let n = 2; zip.file(candidate); n++) {
+    candidate = `${stem}-${suffix}${n}${ext}`;
+  }
+  return candidate;
+}
+
+/** Make sure [Content_Types].xml declares a default for a file extension. */
+export async function ensureDefaultContentType(
+  zip: JSZip,
+  extension: string,
+  contentType: string
+): Promise<void> {
+  const file = zip.file("[Content_Types].xml");
+  if (!file) return;
+  const content = await file.async("string");
+  const declared = [...content.matchAll(/<Default\b[^>]*\/>/g)].some(
+    (m) => attr(m[0], "Extension")?.toLowerCase() === extension.toLowerCase()
+  );
+  if (declared) return;
+
+  zip.file(
+    "[Content_Types].xml",
+    content.replace(
+      /<Types\b[^>]*>/,
+      (open) =>
+        `${open}<Default Extension="${extension}" ContentType="${contentType}"/>`
+    )
+  );
+}
+
+/** The part a .rels file belongs to ("" for the package-level _rels/.rels). */
+export function sourcePartFor(relsPath: string): string {
+  return relsPath.replace(/_rels\/([^/]*)\.rels$/, "$1");
+}
+
+/** Whether any relationship in the package still targets a part. */
+export async function isPartReferenced(zip: JSZip, partPath: string): Promise<boolean> {
+  for (const relsFile of zip.file(/\.rels$/)) {
+    const source = sourcePartFor(relsFile.name);
+    const rels = parseRelationships(await relsFile.async("string"));
+    if (rels.some((rel) => !rel.external && namesPart(resolveTarget(source, rel.target), partPath))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Remove a part from the package together with its own relationships, every
+ * relationship that targets it, and its content-type override.
+ */
+export async function removePart(zip: JSZip, partPath: string): Promise<void> {
+  zip.remove(partPath);
+  zip.remove(relsPathFor(partPath));
+
+  for (const relsFile of zip.file(/\.rels$/)) {
+    const source = sourcePartFor(relsFile.name);
+    let content = await relsFile.async("string");
+    let changed = false;
+    for (const rel of parseRelationships(content)) {
+      if (!rel.external && namesPart(resolveTarget(source, rel.target), partPath)) {
+        content = content.replace(rel.xml, "");
+        changed = true;
+      }
+    }
+    if (changed) zip.file(relsFile.name, content);
+  }
+
+  const contentTypes = zip.file("[Content_Types].xml");
+  if (contentTypes) {
+    const content = await contentTypes.async("string");
+    zip.file(
+      "[Content_Types].xml",
+      content.replace(/<Override\b[^>]*\/>/g, (override) =>
+        namesPart(attr(override, "PartName") ?? "", partPath) ? "" : override
+      )
+    );
+  }
+}
+
+/** Parsed [Content_Types].xml. */
+export interface ContentTypes {
+  /** Lower-case file extension → content type */
+  defaults: Map<string, string>;
+  /** `partKey` of the part path (without leading slash) → content type */
+  overrides: Map<string, string>;
+}
+
+/** The package as a graph: parts and the relationships between them. */
+export interface PackageModel {
+  /** Every part in the ZIP, excluding .rels files and [Content_Types].xml */
+  parts: Set<string>;
+  /** ZIP path of each part by its `partKey`, for case-insensitive lookups */
+  partNames: Map<string, string>;
+  /** Relationships by source part ("" for the package itself) */
+  relationships: Map<string, Relationship[]>;
+  contentTypes: ContentTypes;
+}
+
+export function parseContentTypes(xml: string): ContentTypes {
+  const defaults = new Map<string, string>();
+  const overrides = new Map<string, string>();
+  for (const m of xml.matchAll(/<Default\b[^>]*\/>/g)) {
+    const ext = attr(m[0], "Extension");
+    const type = attr(m[0], "ContentType");
+    if (ext && type) defaults.set(ext.toLowerCase(), type);
+  }
+  for (const m of xml.matchAll(/<Override\b[^>]*\/>/g)) {
+    const part = attr(m[0], "PartName");
+    const type = attr(m[0], "ContentType");
+    if (part && type) overrides.set(partNameKey(part), type);
+  }
+  return { defaults, overrides };
+}
+
+/** Content type of a part: its override, else the default for its extension. */
+export function contentTypeOf(model: PackageModel, partPath: string): string | null {
+  const override = model.contentTypes.overrides.get(partKey(partPath));
+  if (override) return override;
+  const ext = partPath.split(".").pop()?.toLowerCase() ?? "";
+  return model.contentTypes.defaults.get(ext) ?? null;
+}
+
+/**
+ * Comparison key for a part name. OPC part names are case-insensitive
+ * (ASCII only), so "media/Image1.PNG" and "media/image1.png" are one part.
+ */
+export function partKey(partPath: string): string {
+  return partPath.replace(/[A-Z]/g, (c) => c.toLowerCase());
+}
+
+/**
+ * `partKey` of a part name as written in a relationship target or a
+ * content-type override: any leading slash is dropped and percent-encoding
+ * is decoded.
+ */
+export function partNameKey(name: string): string {
+  const path = name.replace(/^\//, "");
+  try {
+    return partKey(decodeURIComponent(path));
+  } catch {
+    // Malformed escape; compare it as written
+    return partKey(path);
+  }
+}
+
+/**
+ * Whether a part name from a relationship target or a content-type override
+ * names the part at `partPath` (a ZIP path), ignoring case and encoding.
+ */
+export function namesPart(name: string, partPath: string): boolean {
+  const key = partKey(partPath);
+  return partKey(name.replace(/^\//, "")) === key || partNameKey(name) === key;
+}
+
+function isRelsPath(path: string): boolean {
+  return /(^|\/)_rels\/[^/]*\.rels$/.test(path);
+}
+
+/** Read the content types, parts and every relationship in the package. */
+export async function readPackage(zip: JSZip): Promise<PackageModel> {
+  const contentTypesFile = zip.file("[Content_Types].xml");
+  const contentTypes = contentTypesFile
+    ? parseContentTypes(await contentTypesFile.async("string"))
+    : { defaults: new Map(), overrides: new Map() };
+
+  const parts = new Set<string>();
+  const partNames = new Map<string, string>();
+  const relationships = new Map<string, Relationship[]>();
+  for (const file of zip.file(/./)) {
+    if (file.name === "[Content_Types].xml") continue;
+    if (isRelsPath(file.name)) {
+      relationships.set(
+        sourcePartFor(file.name),
+        parseRelationships(await file.async("string"))
+      );
+    } else {
+      parts.add(file.name);
+      partNames.set(partKey(file.name), file.name);
+    }
+  }
+
+  return { parts, partNames, relationships, contentTypes };
+}
+
+/**
+ * Map an internal relationship target to the part it names (as its ZIP
+ * path), or null if no such part exists. Fragments are dropped, and
+ * percent-encoding and differences in letter case are tolerated.
+ */
+export function targetPart(
+  model: PackageModel,
+  source: string,
+  target: string
+): string | null {
+  const path = resolveTarget(source, target.split("#")[0]);
+  const found = model.partNames.get(partKey(path));
+  if (found) return found;
+  try {
+    return model.partNames.get(partKey(decodeURIComponent(path))) ?? null;
+  } catch {
+    // Malformed escape; not a part name
+    return null;
+  }
+}
+
+/**
+ * Walk internal relationships from the package root and collect every part
+ * that can be reached. External targets are ignored.
+ */
+export function reachableParts(model: PackageModel): Set<string> {
+  const reached = new Set<string>();
+  const queue = [""];
+  while (queue.length > 0) {
+    const source = queue.shift()!;
+    for (const rel of model.relationships.get(source) ?? []) {
+      if (rel.external) continue;
+      const part = targetPart(model, source, rel.target);
+      if (part && !reached.has(part)) {
+        reached.add(part);
+        queue.push(part);
+      }
+    }
+  }
+  return reached;
+}
+
+/** Slide part paths in presentation order, from ppt/presentation.xml. */
+export async function slidePartsInOrder(zip: JSZip): Promise<string[]> {
+  const presentationPath = "ppt/presentation.xml";
+  const presentation = zip.file(presentationPath);
+  if (!presentation) return [];
+  const xml = await presentation.async("string");
+  const rels = await readRelationships(zip, presentationPath);
+
+  const slides: string[] = [];
+  for (const m of xml.matchAll(/<p:sldId\b[^>]*\/>/g)) {
+    const rId = attr(m[0], "r:id");
+    const rel = rels.find((r) => r.id === rId);
+    if (rel) slides.push(resolveTarget(presentationPath, rel.target));
+  }
+  return slides;
+}
+
+/** Set (or add) the content-type override for a part. */
+export async function setContentTypeOverride(
+  zip: JSZip,
+  partPath: string,
+  contentType: string
+): Promise<void> {
+  const file = zip.file("[Content_Types].xml");
+  if (!file) return;
+  const content = await file.async("string");
+  let found = false;
+  const updated = content.replace(/<Override\b[^>]*\/>/g, (override) => {
+    if (!namesPart(attr(override, "PartName") ?? "", partPath)) return override;
+    found = true;
+    return override.replace(/\bContentType="[^"]*"/, `ContentType="${contentType}"`);
+  });
+  zip.file(
+    "[Content_Types].xml",
+    found
+      ? updated
+      : updated.replace(
+          "</Types>",
+          `<Override PartName="/${partPath}" ContentType="${contentType}"/></Types>`
+        )
+  );
+}
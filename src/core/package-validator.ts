@@ -0,0 +1,91 @@
+import JSZip from "jszip";
+import {
+  contentTypeOf,
+  readPackage,
+  relsPathFor,
+  resolveTarget,
+  targetPart,
+} from "./package-parts";
+
+export interface ValidationIssue {
+  /** Part (or .rels file) containing the broken reference */
+  part: string;
+  message: string;
+  /** For a relationship to a missing part, the ZIP path it resolves to */
+  target?: string;
+}
+
+/** Raised when a generated package would not open cleanly in PowerPoint. */
+export class PackageValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const listed = issues
+      .slice(0, 10)
+      .map((issue) => `• ${issue.part}: ${issue.message}`)
+      .join("\n");
+    const more = issues.length > 10 ? `\n…and ${issues.length - 10} more` : "";
+    super(
+      `The secured file failed validation and was not downloaded:\n${listed}${more}`
+    );
+    this.name = "PackageValidationError";
+    this.issues = issues;
+  }
+}
+
+/** Parts whose XML points at relationships by r:embed, r:id and friends. */
+const XML_WITH_REFERENCES =
+  /^ppt\/(slides|slideLayouts|slideMasters|notesSlides|notesMasters|handoutMasters)\/[^/]+\.xml$|^ppt\/presentation\.xml$/;
+
+/**
+ * Check a package for the structural problems that make PowerPoint refuse or
+ * "repair" a file: relationships to missing parts, parts without a content
+ * type, and r:* attributes in slide XML naming relationships that don't exist.
+ */
+export async function validatePackage(zip: JSZip): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+  const model = await readPackage(zip);
+
+  if (!zip.file("[Content_Types].xml")) {
+    issues.push({ part: "[Content_Types].xml", message: "missing" });
+  }
+
+  for (const [source, rels] of model.relationships) {
+    for (const rel of rels) {
+      if (rel.external || targetPart(model, source, rel.target)) continue;
+      issues.push({
+        part: relsPathFor(source),
+        message: `relationship ${rel.id} points to missing part "${rel.target}"`,
+        target: resolveTarget(source, rel.target.split("#")[0]),
+      });
+    }
+  }
+
+  for (const part of model.parts) {
+    if (!contentTypeOf(model, part)) {
+      issues.push({ part, message: "has no content type" });
+    }
+  }
+  if (model.relationships.size > 0 && !model.contentTypes.defaults.has("rels")) {
+    issues.push({ part: "[Content_Types].xml", message: "no content type for .rels files" });
+  }
+
+  for (const file of zip.file(XML_WITH_REFERENCES)) {
+    const ids = new Set((model.relationships.get(file.name) ?? []).map((r) => r.id));
+    const xml = await file.async("string");
+    const dangling = new Set<string>();
+    for (const m of xml.matchAll(/\br:(embed|id|link|pict|dm|lo|qs|cs)="([^"]+)"/g)) {
+      if (!ids.has(m[2])) dangling.add(`r:${m[1]}="${m[2]}"`);
+    }
+    for (const ref of dangling) {
+      issues.push({ part: file.name, message: `dangling reference ${ref}` });
+    }
+  }
+
+  return issues;
+}
+
+/** Stable key for comparing issues between two versions of a package. */
+export function issueKey(issue: ValidationIssue): string {
+  return `${issue.part}\n${issue.message}`;
+}
@@ -0,0 +1,171 @@
+import JSZip from "jszip";
+import { removePart } from "./package-parts";
+
+/**
+ * "Remove personal information" profile: document properties and comment
+ * metadata that identify people, organizations or editing history.
+ */
+
+export type PersonalInfoCategory =
+  | "authors"
+  | "timestamps"
+  | "appProperties"
+  | "customProperties"
+  | "commentAuthors";
+
+export type PersonalInfoOptions = Record<PersonalInfoCategory, boolean>;
+
+/** What was scrubbed, per category (element names or part paths). */
+export type PersonalInfoResult = Record<PersonalInfoCategory, string[]>;
+
+export const PERSONAL_INFO_CATEGORIES: PersonalInfoCategory[] = [
+  "authors",
+  "timestamps",
+  "appProperties",
+  "customProperties",
+  "commentAuthors",
+];
+
+/** Everything turned on. */
+export const DEFAULT_PERSONAL_INFO: PersonalInfoOptions = {
+  authors: true,
+  timestamps: true,
+  appProperties: true,
+  customProperties: true,
+  commentAuthors: true,
+};
+
+interface XmlEdit {
+  /** Qualified element name, e.g. "dc:creator" */
+  element: string;
+  /** Replacement text content; null removes the element entirely */
+  value: string | null;
+}
+
+const CORE_EDITS: Partial<Record<PersonalInfoCategory, XmlEdit[]>> = {
+  authors: [
+    { element: "dc:creator", value: "" },
+    { element: "cp:lastModifiedBy", value: "" },
+    { element: "cp:revision", value: "1" },
+  ],
+  timestamps: [
+    { element: "dcterms:created", value: null },
+    { element: "dcterms:modified", value: null },
+    { element: "cp:lastPrinted", value: null },
+  ],
+};
+
+const APP_EDITS: XmlEdit[] = [
+  { element: "Company", value: null },
+  { element: "Manager", value: null },
+  { element: "Template", value: null },
+  { element: "HyperlinkBase", value: null },
+  { element: "TotalTime", value: "0" },
+];
+
+/**
+ * Apply element edits to an XML string. Returns the names of the elements
+ * that actually held something.
+ */
+function applyEdits(xml: string, edits: XmlEdit[]): { xml: string; changed: string[] } {
+  const changed: string[] = [];
+  for (const { element, value } of edits) {
+    const pattern = new RegExp(
+      `<${element}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${element}>)`,
+      "g"
+    );
+    xml = xml.replace(pattern, (match, attrs: string | undefined, content: string | undefined) => {
+      const current = content ?? "";
+      if (value === null) {
+        if (current.trim()) changed.push(element);
+        return "";
+      }
+      if (current === value) return match;
+      changed.push(element);
+      return `<${element}${attrs ?? ""}>${value}</${element}>`;
+    });
+  }
+  return { xml, changed: [...new Set(changed)] };
+}
+
+async function editPart(
+  zip: JSZip,
+  path: string,
+  edits: XmlEdit[]
+): Promise<string[]> {
+  const file = zip.file(path);
+  if (!file || edits.length === 0) return [];
+  const result = applyEdits(await file.async("string"), edits);
+  if (result.changed.length > 0) zip.file(path, result.xml);
+  return result.changed.map((element) => `${path}: ${element}`);
+}
+
+/**
+ * Replace author identities on comment-author lists (legacy commentAuthors.xml
+ * and modern authors.xml) with neutral placeholders. Comments keep their
+ * author ids, so threads stay intact.
+ */
+async function anonymizeCommentAuthors(zip: JSZip): Promise<string[]> {
+  const scrubbed: string[] = [];
+  const targets: { path: string; element: RegExp }[] = [
+    { path: "ppt/commentAuthors.xml", element: /<p:cmAuthor\b[^>]*>/g },
+    { path: "ppt/authors.xml", element: /<p188:author\b[^>]*>/g },
+  ];
+
+  for (const { path, element } of targets) {
+    const file = zip.file(path);
+    if (!file) continue;
+    let n = 0;
+    const xml = (await file.async("string")).replace(element, (tag) => {
+      n++;
+      return tag
+        .replace(/\bname="[^"]*"/, `name="Author ${n}"`)
+        .replace(/\binitials="[^"]*"/, 'initials="A"')
+        .replace(/\buserId="[^"]*"/, 'userId=""')
+        .replace(/\bproviderId="[^"]*"/, 'providerId=""');
+    });
+    if (n > 0) {
+      zip.file(path, xml);
+      scrubbed.push(`${path}: ${n} author${n !== 1 ? "s" : ""}`);
+    }
+  }
+
+  return scrubbed;
+}
+
+/**
+ * Scrub the selected categories of personal information from the package.
+ */
+export async function scrubPersonalInfo(
+  zip: JSZip,
+  options: PersonalInfoOptions
+): Promise<PersonalInfoResult> {
+  const result: PersonalInfoResult = {
+    authors: [],
+    timestamps: [],
+    appProperties: [],
+    customProperties: [],
+    commentAuthors: [],
+  };
+
+  for (const category of ["authors", "timestamps"] as const) {
+    if (options[category]) {
+      result[category] = await editPart(zip, "docProps/core.xml", CORE_EDITS[category] ?? []);
+    }
+  }
+
+  if (options.appProperties) {
+    result.appProperties = await editPart(zip, "docProps/app.xml", APP_EDITS);
+  }
+
+  if (options.customProperties && zip.file("docProps/custom.xml")) {
+    await removePart(zip, "docProps/custom.xml");
+    result.customProperties = ["docProps/custom.xml"];
+  }
+
+  if (options.commentAuthors) {
+    result.commentAuthors = await anonymizeCommentAuthors(zip);
+  }
+
+  return result;
+}
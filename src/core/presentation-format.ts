@@ -0,0 +1,169 @@
+import JSZip from "jszip";
+import {
+  namesPart,
+  parseRelationships,
+  readRelationships,
+  removePart,
+  resolveTarget,
+  setContentTypeOverride,
+  sourcePartFor,
+} from "./package-parts";
+
+/**
+ * The OOXML presentation variants — presentation, slide show and template,
+ * each with and without macros — told apart by their main part's content type.
+ */
+
+export type PresentationExtension = "pptx" | "pptm" | "ppsx" | "ppsm" | "potx" | "potm";
+
+export interface PresentationFormat {
+  extension: PresentationExtension;
+  /** Content type of ppt/presentation.xml */
+  contentType: string;
+  macroEnabled: boolean;
+  /** The same kind of file without macros */
+  macroFree: PresentationExtension;
+}
+
+export const PRESENTATION_FORMATS: Record<PresentationExtension, PresentationFormat> = {
+  pptx: {
+    extension: "pptx",
+    contentType: "application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml",
+    macroEnabled: false,
+    macroFree: "pptx",
+  },
+  pptm: {
+    extension: "pptm",
+    contentType: "application/vnd.ms-powerpoint.presentation.macroEnabled.main+xml",
+    macroEnabled: true,
+    macroFree: "pptx",
+  },
+  ppsx: {
+    extension: "ppsx",
+    contentType: "application/vnd.openxmlformats-officedocument.presentationml.slideshow.main+xml",
+    macroEnabled: false,
+    macroFree: "ppsx",
+  },
+  ppsm: {
+    extension: "ppsm",
+    contentType: "application/vnd.ms-powerpoint.slideshow.macroEnabled.main+xml",
+    macroEnabled: true,
+    macroFree: "ppsx",
+  },
+  potx: {
+    extension: "potx",
+    contentType: "application/vnd.openxmlformats-officedocument.presentationml.template.main+xml",
+    macroEnabled: false,
+    macroFree: "potx",
+  },
+  potm: {
+    extension: "potm",
+    contentType: "application/vnd.ms-powerpoint.template.macroEnabled.main+xml",
+    macroEnabled: true,
+    macroFree: "potx",
+  },
+};
+
+export const PRESENTATION_EXTENSIONS = Object.keys(
+  PRESENTATION_FORMATS
+) as PresentationExtension[];
+
+const EXTENSION_PATTERN = new RegExp(`\\.(${PRESENTATION_EXTENSIONS.join("|")})$`, "i");
+
+/** Whether a file name has one of the supported presentation extensions. */
+export function isPresentationFileName(name: string): boolean {
+  return EXTENSION_PATTERN.test(name);
+}
+
+/** File name without its presentation extension. */
+export function stripPresentationExtension(name: string): string {
+  return name.replace(EXTENSION_PATTERN, "");
+}
+
+/** Path of the main presentation part, from the package relationships. */
+async function mainPartPath(zip: JSZip): Promise<string> {
+  const main = (await readRelationships(zip, "")).find((rel) =>
+    rel.type.endsWith("/officeDocument")
+  );
+  return main ? resolveTarget("", main.target) : "ppt/presentation.xml";
+}
+
+/** Identify the presentation variant from its main part's content type. */
+export async function detectFormat(zip: JSZip): Promise<PresentationFormat> {
+  const mainPart = await mainPartPath(zip);
+  const contentTypes = (await zip.file("[Content_Types].xml")?.async("string")) ?? "";
+  const override = [...contentTypes.matchAll(/<Override\b[^>]*\/>/g)].find((m) =>
+    namesPart(m[0].match(/\bPartName="([^"]*)"/)?.[1] ?? "", mainPart)
+  );
+  const contentType = override?.[0].match(/\bContentType="([^"]*)"/)?.[1];
+
+  const format = PRESENTATION_EXTENSIONS.map((ext) => PRESENTATION_FORMATS[ext]).find(
+    (f) => f.contentType === contentType
+  );
+  if (!format) {
+    throw new Error(
+      `Not a PowerPoint presentation (main part type "${contentType ?? "missing"}").`
+    );
+  }
+  return format;
+}
+
+export interface MacroStripResult {
+  /** VBA project and signature parts that were removed */
+  removedParts: string[];
+  /** The format of the package afterwards */
+  format: PresentationFormat;
+}
+
+const VBA_CONTENT_TYPE = /^application\/vnd\.ms-office\.vbaProject/;
+
+/**
+ * Remove the VBA project (vbaProject.bin and its signatures) and turn a
+ * macro-enabled package into its macro-free equivalent, e.g. .pptm → .pptx.
+ * PowerPoint refuses to open a macro-free content type that still has a VBA
+ * project, so both always go together.
+ */
+export async function stripMacros(
+  zip: JSZip,
+  format: PresentationFormat
+): Promise<MacroStripResult> {
+  const vbaParts = new Set<string>();
+  for (const relsFile of zip.file(/\.rels$/)) {
+    const source = sourcePartFor(relsFile.name);
+    for (const rel of parseRelationships(await relsFile.async("string"))) {
+      if (!rel.external && /\/vbaProject(Signature\w*)?$/.test(rel.type)) {
+        vbaParts.add(resolveTarget(source, rel.target));
+      }
+    }
+  }
+  // Also catch a project left behind without a relationship
+  for (const file of zip.file(/(^|\/)vbaProject[^/]*\.bin$/i)) {
+    vbaParts.add(file.name);
+  }
+
+  const removedParts: string[] = [];
+  for (const part of [...vbaParts].sort()) {
+    if (!zip.file(part)) continue;
+    await removePart(zip, part);
+    removedParts.push(part);
+  }
+
+  const contentTypes = zip.file("[Content_Types].xml");
+  if (contentTypes) {
+    const content = await contentTypes.async("string");
+    zip.file(
+      "[Content_Types].xml",
+      content.replace(/<Default\b[^>]*\/>/g, (element) => {
+        const type = element.match(/\bContentType="([^"]*)"/)?.[1] ?? "";
+        return VBA_CONTENT_TYPE.test(type) ? "" : element;
+      })
+    );
+  }
+
+  const macroFree = PRESENTATION_FORMATS[format.macroFree];
+  if (macroFree !== format) {
+    await setContentTypeOverride(zip, await mainPartPath(zip), macroFree.contentType);
+  }
+
+  return { removedParts, format: macroFree };
+}
@@ -0,0 +1,444 @@
+import type { BlurRegion, RegionGeometry } from "../types/editor";
+import { shuffleInPlace, type RandomSource } from "../utils/random";
+
+/**
+ * Pure redaction algorithms over RGBA pixel buffers.
+ *
+ * Nothing in this module touches the DOM, so it runs unchanged on the main
+ * thread, inside the redaction Web Worker, or under Node.
+ */
+
+/** An RGBA pixel buffer — structurally compatible with `ImageData`. */
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Integer pixel rectangle, [x0, x1) × [y0, y1). */
+interface PixelRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/** Called after each region is applied. */
+export type ProgressCallback = (done: number, total: number) => void;
+
+/** Thrown when a redaction run is cancelled through its `AbortSignal`. */
+export class RedactionCancelledError extends Error {
+  constructor() {
+    super("Redaction cancelled");
+    this.name = "RedactionCancelledError";
+  }
+}
+
+type Rgba = [number, number, number, number];
+
+/** Channel quantization step for hardened pixelation. */
+const SECURE_PIXELATE_QUANT_STEP = 16;
+
+/** Maximum absolute per-channel noise added to each hardened block. */
+const SECURE_PIXELATE_NOISE = 10;
+
+/**
+ * Average the pixels of a rectangle inside an RGBA buffer of width `stride`.
+ */
+function averageRect(
+  data: Uint8ClampedArray,
+  stride: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): Rgba {
+  let r = 0,
+    g = 0,
+    b = 0,
+    a = 0,
+    count = 0;
+
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      const i = (py * stride + px) * 4;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      a += data[i + 3];
+      count++;
+    }
+  }
+
+  return [
+    Math.round(r / count),
+    Math.round(g / count),
+    Math.round(b / count),
+    Math.round(a / count),
+  ];
+}
+
+/**
+ * Overwrite every pixel of a rectangle with a single color.
+ */
+function fillRect(
+  data: Uint8ClampedArray,
+  stride: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  color: Rgba
+): void {
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      const i = (py * stride + px) * 4;
+      data[i] = color[0];
+      data[i + 1] = color[1];
+      data[i + 2] = color[2];
+      data[i + 3] = color[3];
+    }
+  }
+}
+
+/**
+ * Quantize a color's RGB channels and add random noise (alpha is untouched).
+ */
+function perturbColor(color: Rgba, random: RandomSource): Rgba {
+  const perturb = (v: number) =>
+    Math.round(v / SECURE_PIXELATE_QUANT_STEP) * SECURE_PIXELATE_QUANT_STEP +
+    Math.round((random() * 2 - 1) * SECURE_PIXELATE_NOISE);
+  return [perturb(color[0]), perturb(color[1]), perturb(color[2]), color[3]];
+}
+
+/**
+ * Fill one hardened block. With `shuffle`, blocks large enough to split are
+ * divided into a 2x2 grid whose averages are shuffled between quadrants before
+ * being written, so the block no longer carries a faithful spatial average.
+ */
+function fillSecureBlock(
+  data: Uint8ClampedArray,
+  stride: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  shuffle: boolean,
+  random: RandomSource
+): void {
+  const w = x1 - x0;
+  const h = y1 - y0;
+
+  if (!shuffle || w < 4 || h < 4) {
+    const avg = averageRect(data, stride, x0, y0, x1, y1);
+    fillRect(data, stride, x0, y0, x1, y1, perturbColor(avg, random));
+    return;
+  }
+
+  const mx = x0 + Math.floor(w / 2);
+  const my = y0 + Math.floor(h / 2);
+  const quadrants: [number, number, number, number][] = [
+    [x0, y0, mx, my],
+    [mx, y0, x1, my],
+    [x0, my, mx, y1],
+    [mx, my, x1, y1],
+  ];
+  const colors = shuffleInPlace(
+    quadrants.map(([qx0, qy0, qx1, qy1]) =>
+      averageRect(data, stride, qx0, qy0, qx1, qy1)
+    ),
+    random
+  );
+
+  quadrants.forEach(([qx0, qy0, qx1, qy1], i) => {
+    fillRect(data, stride, qx0, qy0, qx1, qy1, perturbColor(colors[i], random));
+  });
+}
+
+/**
+ * Pixelate an entire buffer.
+ * Every pixel in each block is overwritten with the block average — no original values survive.
+ *
+ * Hardened regions additionally randomize the block grid offset and quantize
+ * and noise block values (optionally shuffling sub-blocks), defeating
+ * Depix-style reconstruction that matches known font renderings against
+ * exact block averages.
+ */
+function pixelate(
+  buf: PixelBuffer,
+  blockSize: number,
+  hardened: boolean,
+  shuffle: boolean,
+  random: RandomSource
+): void {
+  const { data, width: w, height: h } = buf;
+
+  // A random grid offset means block boundaries don't line up with glyphs
+  const offsetX = hardened ? Math.floor(random() * blockSize) : 0;
+  const offsetY = hardened ? Math.floor(random() * blockSize) : 0;
+
+  for (let blockY = -offsetY; blockY < h; blockY += blockSize) {
+    for (let blockX = -offsetX; blockX < w; blockX += blockSize) {
+      const x0 = Math.max(0, blockX);
+      const y0 = Math.max(0, blockY);
+      const x1 = Math.min(w, blockX + blockSize);
+      const y1 = Math.min(h, blockY + blockSize);
+
+      if (hardened) {
+        fillSecureBlock(data, w, x0, y0, x1, y1, shuffle, random);
+      } else {
+        // Fill block with average (destroys original pixel values)
+        const avg = averageRect(data, w, x0, y0, x1, y1);
+        fillRect(data, w, x0, y0, x1, y1, avg);
+      }
+    }
+  }
+}
+
+/** Number of box-blur passes — three passes approximate a Gaussian. */
+const BLUR_PASSES = 3;
+
+/** Channel quantization step applied after blurring. */
+const BLUR_QUANT_STEP = 8;
+
+/** Maximum absolute per-channel noise added after quantization. */
+const BLUR_NOISE = 6;
+
+/**
+ * One horizontal or vertical box-blur pass over a single RGBA buffer.
+ * Edge pixels are clamped, so only pixels inside the region contribute.
+ */
+function boxBlurPass(
+  src: Uint8ClampedArray,
+  dst: Uint8ClampedArray,
+  w: number,
+  h: number,
+  radius: number,
+  horizontal: boolean
+): void {
+  const length = horizontal ? w : h;
+  const lines = horizontal ? h : w;
+  const span = radius * 2 + 1;
+
+  for (let line = 0; line < lines; line++) {
+    const indexOf = (pos: number) => {
+      const p = Math.min(length - 1, Math.max(0, pos));
+      return (horizontal ? line * w + p : p * w + line) * 4;
+    };
+
+    for (let c = 0; c < 4; c++) {
+      // Prime the running sum with the window centered on position 0
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += src[indexOf(k) + c];
+      }
+      for (let pos = 0; pos < length; pos++) {
+        dst[indexOf(pos) + c] = sum / span;
+        sum += src[indexOf(pos + radius + 1) + c] - src[indexOf(pos - radius) + c];
+      }
+    }
+  }
+}
+
+/**
+ * Destructively blur an entire buffer.
+ * A multi-pass separable box blur is followed by color quantization and random
+ * noise, so the result cannot be deconvolved back to the original pixels.
+ */
+function blur(buf: PixelBuffer, blurRadius: number, random: RandomSource): void {
+  const radius = Math.max(1, Math.round(blurRadius));
+  const { data: src, width: w, height: h } = buf;
+  const tmp = new Uint8ClampedArray(src.length);
+
+  for (let pass = 0; pass < BLUR_PASSES; pass++) {
+    boxBlurPass(src, tmp, w, h, radius, true);
+    boxBlurPass(tmp, src, w, h, radius, false);
+  }
+
+  // Quantize and add noise to the color channels (alpha is left smooth)
+  for (let i = 0; i < src.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const quantized = Math.round(src[i + c] / BLUR_QUANT_STEP) * BLUR_QUANT_STEP;
+      const noise = Math.round((random() * 2 - 1) * BLUR_NOISE);
+      src[i + c] = quantized + noise;
+    }
+  }
+}
+
+/**
+ * Parse a `#rgb` or `#rrggbb` color. Anything else falls back to opaque black.
+ */
+function parseHexColor(color: string): Rgba {
+  let hex = color.trim().replace(/^#/, "");
+  if (hex.length === 3) hex = [...hex].map((c) => c + c).join("");
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return [0, 0, 0, 255];
+  const n = parseInt(hex, 16);
+  return [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff, 255];
+}
+
+/**
+ * Integer bounding box of a region, clamped to the buffer.
+ * Returns null when the region lies entirely outside.
+ */
+function regionPixelRect(buf: PixelBuffer, region: RegionGeometry): PixelRect | null {
+  const x0 = Math.max(0, Math.round(region.x));
+  const y0 = Math.max(0, Math.round(region.y));
+  const x1 = Math.min(buf.width, Math.round(region.x + region.width));
+  const y1 = Math.min(buf.height, Math.round(region.y + region.height));
+  return x1 > x0 && y1 > y0 ? { x0, y0, x1, y1 } : null;
+}
+
+/**
+ * Rasterize a region's outline into a coverage mask over `rect`
+ * (1 = inside, sampled at pixel centers). Rectangles need no mask.
+ *
+ * The mask is binary on purpose: anti-aliased edges would blend original
+ * pixels into the output.
+ */
+function rasterizeMask(
+  region: RegionGeometry,
+  rect: PixelRect
+): Uint8Array | null {
+  if (region.shape === "rect") return null;
+
+  const w = rect.x1 - rect.x0;
+  const h = rect.y1 - rect.y0;
+  const mask = new Uint8Array(w * h);
+
+  if (region.shape === "polygon" || region.shape === "lasso") {
+    // Even-odd scanline fill
+    const pts = region.points;
+    const crossings: number[] = [];
+    for (let py = 0; py < h; py++) {
+      const y = rect.y0 + py + 0.5;
+      crossings.length = 0;
+      for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        const a = pts[i];
+        const b = pts[j];
+        if (a.y > y !== b.y > y) {
+          crossings.push(a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y));
+        }
+      }
+      crossings.sort((p, q) => p - q);
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        // Pixel centers between the two crossings
+        const from = Math.max(0, Math.ceil(crossings[k] - rect.x0 - 0.5));
+        const to = Math.min(w - 1, Math.floor(crossings[k + 1] - rect.x0 - 0.5));
+        for (let px = from; px <= to; px++) mask[py * w + px] = 1;
+      }
+    }
+    return mask;
+  }
+
+  // Ellipse
+  const rx = region.width / 2;
+  const ry = region.height / 2;
+  const cx = region.x + rx;
+  const cy = region.y + ry;
+  if (rx <= 0 || ry <= 0) return mask;
+  for (let py = 0; py < h; py++) {
+    const dy = (rect.y0 + py + 0.5 - cy) / ry;
+    for (let px = 0; px < w; px++) {
+      const dx = (rect.x0 + px + 0.5 - cx) / rx;
+      if (dx * dx + dy * dy <= 1) mask[py * w + px] = 1;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Copy a rectangle out of a buffer into a new buffer.
+ */
+function cropBuffer(buf: PixelBuffer, rect: PixelRect): PixelBuffer {
+  const width = rect.x1 - rect.x0;
+  const height = rect.y1 - rect.y0;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let py = 0; py < height; py++) {
+    const start = ((rect.y0 + py) * buf.width + rect.x0) * 4;
+    data.set(buf.data.subarray(start, start + width * 4), py * width * 4);
+  }
+  return { data, width, height };
+}
+
+/**
+ * Write a cropped buffer back at `rect`, only where `mask` is set (or everywhere if no mask).
+ */
+function pasteBuffer(
+  buf: PixelBuffer,
+  patch: PixelBuffer,
+  rect: PixelRect,
+  mask: Uint8Array | null
+): void {
+  const w = patch.width;
+  for (let py = 0; py < patch.height; py++) {
+    const dstRow = ((rect.y0 + py) * buf.width + rect.x0) * 4;
+    if (!mask) {
+      buf.data.set(patch.data.subarray(py * w * 4, (py + 1) * w * 4), dstRow);
+      continue;
+    }
+    for (let px = 0; px < w; px++) {
+      if (!mask[py * w + px]) continue;
+      const s = (py * w + px) * 4;
+      const d = dstRow + px * 4;
+      buf.data[d] = patch.data[s];
+      buf.data[d + 1] = patch.data[s + 1];
+      buf.data[d + 2] = patch.data[s + 2];
+      buf.data[d + 3] = patch.data[s + 3];
+    }
+  }
+}
+
+/**
+ * Apply a single region to a buffer in place, using whichever redaction its mode selects.
+ * The effect is computed over the region's bounding box, then written back
+ * through the shape's mask.
+ */
+export function applyRegionToBuffer(
+  buf: PixelBuffer,
+  region: BlurRegion,
+  random: RandomSource
+): void {
+  const rect = regionPixelRect(buf, region);
+  if (!rect) return;
+
+  const patch = cropBuffer(buf, rect);
+  switch (region.mode) {
+    case "pixelate":
+      pixelate(
+        patch,
+        Math.max(1, Math.round(region.blockSize)),
+        region.hardened,
+        region.shuffleBlocks,
+        random
+      );
+      break;
+    case "blur":
+      blur(patch, region.blurRadius, random);
+      break;
+    case "solid": {
+      const color = parseHexColor(region.fillColor);
+      fillRect(patch.data, patch.width, 0, 0, patch.width, patch.height, color);
+      break;
+    }
+  }
+
+  pasteBuffer(buf, patch, rect, rasterizeMask(region, rect));
+}
+
+/**
+ * Apply every region to a buffer in order (later regions paint over earlier ones).
+ * Reports progress after each region and stops between regions once `signal` aborts.
+ */
+export function applyRegions(
+  buf: PixelBuffer,
+  regions: BlurRegion[],
+  random: RandomSource,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): void {
+  regions.forEach((region, i) => {
+    if (signal?.aborted) throw new RedactionCancelledError();
+    applyRegionToBuffer(buf, region, random);
+    onProgress?.(i + 1, regions.length);
+  });
+}
@@ -0,0 +1,50 @@
+import type { BlurRegion } from "../types/editor";
+import { applyRegions } from "./redaction";
+import { secureRandom } from "../utils/random";
+
+/** Message sent to the worker to start a job. */
+export interface RedactionRequest {
+  /** PNG/JPEG bytes of the source image */
+  image: Blob;
+  regions: BlurRegion[];
+}
+
+/** Messages posted back by the worker. */
+export type RedactionResponse =
+  | { type: "progress"; done: number; total: number }
+  | { type: "done"; png: Blob }
+  | { type: "error"; message: string };
+
+// The project compiles against the DOM lib, so view the global scope as a Worker
+const worker = self as unknown as Worker;
+
+worker.onmessage = async (e: MessageEvent<RedactionRequest>) => {
+  const post = (message: RedactionResponse) => worker.postMessage(message);
+
+  try {
+    const { image, regions } = e.data;
+    const bitmap = await createImageBitmap(image);
+
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Failed to create canvas context");
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyRegions(imageData, regions, secureRandom, (done, total) =>
+      post({ type: "progress", done, total })
+    );
+    ctx.putImageData(imageData, 0, 0);
+
+    // Export as PNG (lossless — no JPEG compression artifacts leaking original data)
+    const png = await canvas.convertToBlob({ type: "image/png" });
+    post({ type: "done", png });
+  } catch (err) {
+    post({
+      type: "error",
+      message: err instanceof Error ? err.message : "Redaction failed",
+    });
+  }
+};
@@ -0,0 +1,245 @@
+import type { Point, RegionBounds, RegionGeometry } from "../types/editor";
+
+/**
+ * Bounding box of a point list.
+ */
+export function boundsOfPoints(points: Point[]): RegionBounds {
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Normalize a geometry: flip negative drag extents on rectangles/ellipses,
+ * and recompute the bounds of polygons/lassos from their points.
+ */
+export function normalizeGeometry(geometry: RegionGeometry): RegionGeometry {
+  if (geometry.shape === "polygon" || geometry.shape === "lasso") {
+    return { ...geometry, ...boundsOfPoints(geometry.points) };
+  }
+  const { x, y, width, height } = geometry;
+  return {
+    ...geometry,
+    x: width < 0 ? x + width : x,
+    y: height < 0 ? y + height : y,
+    width: Math.abs(width),
+    height: Math.abs(height),
+  };
+}
+
+/**
+ * Scale a geometry from image pixels into another coordinate space
+ * (e.g. the display canvas), dividing every coordinate by the given factors.
+ */
+export function scaleGeometry<T extends RegionGeometry>(
+  geometry: T,
+  scaleX: number,
+  scaleY: number
+): T {
+  const scaled: T = {
+    ...geometry,
+    x: geometry.x / scaleX,
+    y: geometry.y / scaleY,
+    width: geometry.width / scaleX,
+    height: geometry.height / scaleY,
+  };
+  if (scaled.shape === "polygon" || scaled.shape === "lasso") {
+    scaled.points = scaled.points.map((p) => ({
+      x: p.x / scaleX,
+      y: p.y / scaleY,
+    }));
+  }
+  return scaled;
+}
+
+/**
+ * Trace a geometry's outline as the current path on a canvas context.
+ * The caller decides whether to fill, stroke or clip.
+ */
+export function traceRegionPath(
+  ctx: CanvasRenderingContext2D,
+  geometry: RegionGeometry
+): void {
+  const { x, y, width, height } = normalizeGeometry(geometry);
+  ctx.beginPath();
+
+  switch (geometry.shape) {
+    case "rect":
+      ctx.rect(x, y, width, height);
+      break;
+    case "ellipse":
+      ctx.ellipse(
+        x + width / 2,
+        y + height / 2,
+        width / 2,
+        height / 2,
+        0,
+        0,
+        Math.PI * 2
+      );
+      break;
+    case "polygon":
+    case "lasso":
+      geometry.points.forEach((p, i) => {
+        if (i === 0) ctx.moveTo(p.x, p.y);
+        else ctx.lineTo(p.x, p.y);
+      });
+      ctx.closePath();
+      break;
+  }
+}
+
+/** Corner and edge handles used to resize a selected region. */
+export type ResizeHandle = "nw" | "n" | "ne" | "e" | "se" | "s" | "sw" | "w";
+
+export const RESIZE_HANDLES: ResizeHandle[] = [
+  "nw",
+  "n",
+  "ne",
+  "e",
+  "se",
+  "s",
+  "sw",
+  "w",
+];
+
+/**
+ * Position of a resize handle on a bounding box.
+ */
+export function handlePosition(bounds: RegionBounds, handle: ResizeHandle): Point {
+  const { x, y, width, height } = bounds;
+  const hx = handle.includes("w") ? x : handle.includes("e") ? x + width : x + width / 2;
+  const hy = handle.includes("n") ? y : handle.includes("s") ? y + height : y + height / 2;
+  return { x: hx, y: hy };
+}
+
+/**
+ * Find the resize handle within `tolerance` of a point, if any.
+ */
+export function handleAt(
+  bounds: RegionBounds,
+  point: Point,
+  tolerance: number
+): ResizeHandle | null {
+  for (const handle of RESIZE_HANDLES) {
+    const p = handlePosition(bounds, handle);
+    if (Math.abs(p.x - point.x) <= tolerance && Math.abs(p.y - point.y) <= tolerance) {
+      return handle;
+    }
+  }
+  return null;
+}
+
+/**
+ * CSS cursor for hovering or dragging a resize handle.
+ */
+export function handleCursor(handle: ResizeHandle): string {
+  return `${handle}-resize`;
+}
+
+/**
+ * Whether a point lies inside a geometry's outline.
+ */
+export function containsPoint(geometry: RegionGeometry, point: Point): boolean {
+  const { x, y, width, height } = normalizeGeometry(geometry);
+  if (point.x < x || point.x > x + width || point.y < y || point.y > y + height) {
+    return false;
+  }
+
+  switch (geometry.shape) {
+    case "rect":
+      return true;
+    case "ellipse": {
+      const rx = width / 2;
+      const ry = height / 2;
+      if (rx === 0 || ry === 0) return false;
+      const dx = (point.x - (x + rx)) / rx;
+      const dy = (point.y - (y + ry)) / ry;
+      return dx * dx + dy * dy <= 1;
+    }
+    case "polygon":
+    case "lasso": {
+      // Even-odd ray casting
+      const pts = geometry.points;
+      let inside = false;
+      for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        const a = pts[i];
+        const b = pts[j];
+        if (
+          a.y > point.y !== b.y > point.y &&
+          point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+        ) {
+          inside = !inside;
+        }
+      }
+      return inside;
+    }
+  }
+}
+
+/**
+ * Move a geometry by an offset.
+ */
+export function translateGeometry<T extends RegionGeometry>(
+  geometry: T,
+  dx: number,
+  dy: number
+): T {
+  const moved: T = { ...geometry, x: geometry.x + dx, y: geometry.y + dy };
+  if (moved.shape === "polygon" || moved.shape === "lasso") {
+    moved.points = moved.points.map((p) => ({ x: p.x + dx, y: p.y + dy }));
+  }
+  return moved;
+}
+
+/**
+ * Fit a geometry into new bounds. Polygon and lasso points are scaled
+ * proportionally from the old bounds.
+ */
+export function fitGeometry<T extends RegionGeometry>(
+  geometry: T,
+  bounds: RegionBounds
+): T {
+  const fitted: T = { ...geometry, ...bounds };
+  if (fitted.shape === "polygon" || fitted.shape === "lasso") {
+    const sx = geometry.width > 0 ? bounds.width / geometry.width : 1;
+    const sy = geometry.height > 0 ? bounds.height / geometry.height : 1;
+    fitted.points = fitted.points.map((p) => ({
+      x: bounds.x + (p.x - geometry.x) * sx,
+      y: bounds.y + (p.y - geometry.y) * sy,
+    }));
+  }
+  return fitted;
+}
+
+/**
+ * Drag a resize handle by an offset, returning the new bounds.
+ * The opposite edge stays fixed; the size never drops below `minSize`.
+ */
+export function resizeBounds(
+  bounds: RegionBounds,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  minSize = 2
+): RegionBounds {
+  let left = bounds.x;
+  let top = bounds.y;
+  let right = bounds.x + bounds.width;
+  let bottom = bounds.y + bounds.height;
+
+  if (handle.includes("w")) left = Math.min(left + dx, right - minSize);
+  if (handle.includes("e")) right = Math.max(right + dx, left + minSize);
+  if (handle.includes("n")) top = Math.min(top + dy, bottom - minSize);
+  if (handle.includes("s")) bottom = Math.max(bottom + dy, top + minSize);
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
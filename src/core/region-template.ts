@@ -0,0 +1,81 @@
+import type { BlurRegion } from "../types/editor";
+import { generateId } from "../utils/file-helpers";
+import { scaleGeometry } from "./region-geometry";
+
+/** Saved templates, shared by the taskpane and the editor dialog (same origin). */
+const TEMPLATES_KEY = "slide-redact-region-templates";
+
+/**
+ * A named set of regions that can be stamped onto other images. Coordinates
+ * are fractions (0–1) of the image's width and height, and block size and
+ * blur radius fractions of its mean side, so a template drawn on one
+ * resolution lands in the same spot on a resized copy of the screenshot.
+ */
+export interface RegionTemplate {
+  id: string;
+  name: string;
+  regions: BlurRegion[];
+}
+
+/** Turn regions drawn on a `width`×`height` image into a template. */
+export function createTemplate(
+  name: string,
+  regions: BlurRegion[],
+  width: number,
+  height: number
+): RegionTemplate {
+  const side = (width + height) / 2;
+  return {
+    id: generateId(),
+    name,
+    regions: regions.map((region) => ({
+      ...scaleGeometry(region, width, height),
+      blockSize: region.blockSize / side,
+      blurRadius: region.blurRadius / side,
+    })),
+  };
+}
+
+/** The template's regions in the pixels of a `width`×`height` image. */
+export function templateRegions(
+  template: RegionTemplate,
+  width: number,
+  height: number
+): BlurRegion[] {
+  const side = (width + height) / 2;
+  return template.regions.map((region) => ({
+    ...scaleGeometry(region, 1 / width, 1 / height),
+    id: generateId(),
+    blockSize: Math.max(1, Math.round(region.blockSize * side)),
+    blurRadius: Math.max(1, Math.round(region.blurRadius * side)),
+  }));
+}
+
+export function loadTemplates(): RegionTemplate[] {
+  try {
+    const templates = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? "[]");
+    return Array.isArray(templates) ? templates : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTemplates(templates: RegionTemplate[]): void {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+/** Add a template, replacing any existing one with the same name. */
+export function storeTemplate(template: RegionTemplate): RegionTemplate[] {
+  const templates = [
+    ...loadTemplates().filter((t) => t.name !== template.name),
+    template,
+  ];
+  saveTemplates(templates);
+  return templates;
+}
+
+export function deleteTemplate(id: string): RegionTemplate[] {
+  const templates = loadTemplates().filter((t) => t.id !== id);
+  saveTemplates(templates);
+  return templates;
+}
@@ -1,56 +1,237 @@
 import JSZip from "jszip";
-import { cleanOrphanedMedia, stripMetadata } from "./media-cleaner";
+import {
+  cleanOrphanedParts,
+  cleanThumbnail,
+  type ThumbnailCleanup,
+} from "./media-cleaner";
+import {
+  scrubPersonalInfo,
+  type PersonalInfoOptions,
+  type PersonalInfoResult,
+} from "./personal-info";
+import { applyPictureCrops, type AppliedCrop, type SkippedCrop } from "./crop-applier";
+import { removeComments, removeSpeakerNotes } from "./annotations";
+import { sanitizeMedia, type MediaSanitizeResult } from "./media-sanitizer";
+import {
+  applyEmbeddingActions,
+  listEmbeddings,
+  type EmbeddedObject,
+  type EmbeddingAction,
+  type EmbeddingOutcome,
+} from "./embeddings";
+import {
+  PackageValidationError,
+  issueKey,
+  validatePackage,
+  type ValidationIssue,
+} from "./package-validator";
+import { partKey } from "./package-parts";
+import { detectFormat, stripMacros, type PresentationFormat } from "./presentation-format";
+import { auditPresentation, type AuditReport } from "./leak-audit";
 import { downloadBlob } from "../utils/file-helpers";
+import { createPlaceholderImage } from "../utils/image-loader";
+
+/** What to do with the docProps preview thumbnail. */
+export type ThumbnailMode = "remove" | "placeholder";
+
+/** PowerPoint's own thumbnail size. */
+const THUMBNAIL_WIDTH = 256;
+const THUMBNAIL_HEIGHT = 192;
 
 export interface ExportOptions {
-  stripMetadata: boolean;
-  filename: string;
+  /** Categories of personal information to remove */
+  personalInfo: PersonalInfoOptions;
+  /** Remove all speaker notes (and the notes master) */
+  removeNotes: boolean;
+  /** Remove all comments and comment author lists */
+  removeComments: boolean;
+  /** Remove EXIF/XMP/IPTC and text chunks from images in ppt/media/ */
+  stripMediaMetadata: boolean;
+  /** Chosen action per embedded part; unlisted embeddings get the default */
+  embeddingActions: Record<string, EmbeddingAction>;
+  /** Remove the VBA project, turning e.g. .pptm into a macro-free .pptx */
+  stripMacros: boolean;
+  thumbnail: ThumbnailMode;
+  /** Download name without extension; the extension follows the output format */
+  baseName: string;
 }
 
 export interface ExportResult {
+  /** Format of the downloaded file, and the name it was saved as */
+  format: PresentationFormat;
+  filename: string;
+  /** VBA project parts removed; empty if there were none or macros were kept */
+  removedMacros: string[];
   orphanedCount: number;
   orphanedFiles: string[];
   originalSize: number;
   cleanedSize: number;
-  metadataStripped: boolean;
+  /** What was scrubbed, per personal-information category */
+  personalInfo: PersonalInfoResult;
+  /** Removed notes and comment parts */
+  removedNotes: string[];
+  removedComments: string[];
+  /** The action taken on each chart workbook and OLE object */
+  embeddings: EmbeddingOutcome[];
+  /** Null when media metadata stripping was turned off */
+  mediaMetadata: MediaSanitizeResult | null;
+  /** Thumbnails that were removed or replaced; empty if the file had none */
+  thumbnails: ThumbnailCleanup[];
+  /** Cropped pictures whose hidden area was cut out of the image */
+  croppedImages: AppliedCrop[];
+  /** Cropped pictures that could not be flattened (e.g. vector formats) */
+  skippedCrops: SkippedCrop[];
+  /** Likely leaks remaining in the exported file */
+  audit: AuditReport;
+  /** Structural problems already present in the input, left as they were */
+  validationWarnings: ValidationIssue[];
+}
+
+/**
+ * Read a presentation (a user-provided file or the raw bytes of the open
+ * presentation) into JSZip.
+ */
+async function loadPackage(
+  source: File | Uint8Array,
+  onProgress?: (stage: string) => void
+): Promise<{ zip: JSZip; size: number }> {
+  let bytes: Uint8Array;
+  if (source instanceof Uint8Array) {
+    bytes = source;
+  } else {
+    onProgress?.("Reading file...");
+    bytes = new Uint8Array(await source.arrayBuffer());
+  }
+
+  // Validate ZIP magic bytes (PK\x03\x04)
+  if (bytes.length < 4 || bytes[0] !== 0x50 || bytes[1] !== 0x4b) {
+    throw new Error("Not a valid presentation file (not a ZIP archive).");
+  }
+
+  onProgress?.("Analyzing file structure...");
+  const zip = await JSZip.loadAsync(bytes);
+  return { zip, size: bytes.byteLength };
+}
+
+/**
+ * Audit a presentation for likely leaks without changing or downloading anything.
+ */
+export async function auditPptx(
+  source: File | Uint8Array,
+  onProgress?: (stage: string) => void
+): Promise<AuditReport> {
+  const { zip } = await loadPackage(source, onProgress);
+  onProgress?.("Auditing slides...");
+  return auditPresentation(zip);
+}
+
+/**
+ * List a presentation's embedded objects, so an action can be chosen for
+ * each before it is exported.
+ */
+export async function inventoryEmbeddings(
+  source: File | Uint8Array,
+  onProgress?: (stage: string) => void
+): Promise<EmbeddedObject[]> {
+  const { zip } = await loadPackage(source, onProgress);
+  onProgress?.("Listing embedded objects...");
+  return listEmbeddings(zip);
 }
 
 /**
- * Perform a secure export on a user-provided .pptx file:
- * remove orphaned media, optionally strip metadata, and trigger a download.
+ * Whether a missing-part issue names a part the input had, i.e. one this
+ * pipeline removed. Such an issue blocks the export even if the input already
+ * reported the same relationship as broken, so a tolerated baseline problem
+ * can never hide a part that was deleted while still in use.
+ */
+function pointsToRemovedPart(issue: ValidationIssue, originalParts: Set<string>): boolean {
+  if (issue.target === undefined) return false;
+  if (originalParts.has(partKey(issue.target))) return true;
+  try {
+    return originalParts.has(partKey(decodeURIComponent(issue.target)));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Perform a secure export on a presentation — either a user-provided file or the raw
+ * bytes of the open presentation: remove orphaned parts, optionally strip
+ * metadata, validate the result, and trigger a download. Throws
+ * PackageValidationError instead of downloading a file that would not open.
  */
 export async function secureExport(
-  file: File,
+  source: File | Uint8Array,
   options: ExportOptions,
   onProgress?: (stage: string) => void
 ): Promise<ExportResult> {
-  // 1. Read file bytes
-  onProgress?.("Reading file...");
-  const arrayBuffer = await file.arrayBuffer();
-  const originalSize = arrayBuffer.byteLength;
+  // 1–2. Read file bytes and load into JSZip
+  const { zip, size: originalSize } = await loadPackage(source, onProgress);
 
-  // Validate ZIP magic bytes (PK\x03\x04)
-  const header = new Uint8Array(arrayBuffer, 0, 4);
-  if (header[0] !== 0x50 || header[1] !== 0x4b) {
-    throw new Error("Not a valid .pptx file (not a ZIP archive).");
+  // Problems the input already had are tolerated; only new ones block export
+  const baseline = new Set((await validatePackage(zip)).map(issueKey));
+  const originalParts = new Set(zip.file(/./).map((file) => partKey(file.name)));
+  let format = await detectFormat(zip);
+
+  // 3. Cut cropped-away areas out of pictures, leaving the originals orphaned
+  onProgress?.("Applying picture crops...");
+  const crops = await applyPictureCrops(zip);
+
+  // 4. Optionally remove speaker notes and comments (before the orphan
+  // scan, so media only used in notes goes too)
+  let removedNotes: string[] = [];
+  if (options.removeNotes) {
+    onProgress?.("Removing speaker notes...");
+    removedNotes = await removeSpeakerNotes(zip);
+  }
+  let removedComments: string[] = [];
+  if (options.removeComments) {
+    onProgress?.("Removing comments...");
+    removedComments = await removeComments(zip);
   }
 
-  // 2. Load into JSZip
-  onProgress?.("Analyzing file structure...");
-  const zip = await JSZip.loadAsync(arrayBuffer);
+  // Detach chart workbooks and OLE objects as chosen; their data parts are
+  // left unreferenced for the orphan scan
+  onProgress?.("Handling embedded objects...");
+  const embeddings = await applyEmbeddingActions(zip, options.embeddingActions);
+
+  // Drop the VBA project and switch to the macro-free content type
+  let removedMacros: string[] = [];
+  if (options.stripMacros) {
+    onProgress?.("Removing macros...");
+    ({ removedParts: removedMacros, format } = await stripMacros(zip, format));
+  }
 
-  // 3. Remove orphaned media
-  onProgress?.("Scanning for orphaned media files...");
-  const cleanupResult = await cleanOrphanedMedia(zip);
+  // 5. Remove parts unreachable from the package root
+  onProgress?.("Scanning for orphaned parts...");
+  const cleanupResult = await cleanOrphanedParts(zip);
 
-  // 4. Optionally strip metadata
-  let metadataStripped = false;
-  if (options.stripMetadata) {
-    onProgress?.("Stripping metadata...");
-    metadataStripped = await stripMetadata(zip);
+  // 6. Remove the selected categories of personal information
+  onProgress?.("Removing personal information...");
+  const personalInfo = await scrubPersonalInfo(zip, options.personalInfo);
+
+  // 7. Optionally strip EXIF/XMP/IPTC from the remaining images
+  let mediaMetadata: MediaSanitizeResult | null = null;
+  if (options.stripMediaMetadata) {
+    onProgress?.("Stripping image metadata...");
+    mediaMetadata = await sanitizeMedia(zip);
   }
 
-  // 5. Generate clean PPTX
+  // 8. Neutralize the pre-redaction preview thumbnail
+  onProgress?.("Cleaning preview thumbnail...");
+  const thumbnails = await cleanThumbnail(
+    zip,
+    options.thumbnail === "placeholder"
+      ? (mimeType) =>
+          createPlaceholderImage(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, mimeType)
+      : null
+  );
+
+  // 9. Audit what is left that secure export does not fix
+  onProgress?.("Auditing slides...");
+  const audit = await auditPresentation(zip);
+
+  // 10. Generate the clean file
   onProgress?.("Generating secure file...");
   const blob = await zip.generateAsync({
     type: "blob",
@@ -58,15 +239,38 @@ export async function secureExport(
     compressionOptions: { level: 6 },
   });
 
-  // 6. Trigger download
+  // 11. Reload the generated file and make sure nothing we removed left it broken
+  onProgress?.("Validating secure file...");
+  const issues = await validatePackage(await JSZip.loadAsync(blob));
+  const newIssues = issues.filter(
+    (issue) => !baseline.has(issueKey(issue)) || pointsToRemovedPart(issue, originalParts)
+  );
+  if (newIssues.length > 0) {
+    throw new PackageValidationError(newIssues);
+  }
+
+  // 12. Trigger download
   onProgress?.("Downloading...");
-  downloadBlob(blob, options.filename);
+  const filename = `${options.baseName}.${format.extension}`;
+  downloadBlob(blob, filename);
 
   return {
+    format,
+    filename,
+    removedMacros,
     orphanedCount: cleanupResult.removedCount,
     orphanedFiles: cleanupResult.orphanedFiles,
     originalSize,
     cleanedSize: blob.size,
-    metadataStripped,
+    personalInfo,
+    removedNotes,
+    removedComments,
+    embeddings,
+    mediaMetadata,
+    thumbnails,
+    croppedImages: crops.applied,
+    skippedCrops: crops.skipped,
+    audit,
+    validationWarnings: issues.filter((issue) => baseline.has(issueKey(issue))),
   };
 }
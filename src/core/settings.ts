@@ -0,0 +1,256 @@
+import type { BlurMode, RegionStyle } from "../types/editor";
+import { generateId } from "../utils/file-helpers";
+import { DEFAULT_PERSONAL_INFO, PERSONAL_INFO_CATEGORIES } from "./personal-info";
+import type { ExportOptions, ThumbnailMode } from "./secure-export";
+
+/** A named redaction style, e.g. "Legal black box". */
+export interface RedactionPreset {
+  id: string;
+  name: string;
+  style: RegionStyle;
+}
+
+/** Export options remembered between runs; per-file choices are not. */
+export type ExportDefaults = Pick<
+  ExportOptions,
+  | "personalInfo"
+  | "removeNotes"
+  | "removeComments"
+  | "stripMediaMetadata"
+  | "stripMacros"
+  | "thumbnail"
+>;
+
+export interface AddinSettings {
+  /** Style the editor opens with — the last one applied */
+  defaultStyle: RegionStyle;
+  presets: RedactionPreset[];
+  /** Export options the Secure Export tab opens with — the last ones used */
+  exportDefaults: ExportDefaults;
+}
+
+export const DEFAULT_STYLE: RegionStyle = {
+  mode: "pixelate",
+  blockSize: 10,
+  hardened: true,
+  shuffleBlocks: true,
+  fillColor: "#000000",
+  blurRadius: 12,
+};
+
+const DEFAULT_PRESETS: RedactionPreset[] = [
+  {
+    id: "legal-black-box",
+    name: "Legal black box",
+    style: { ...DEFAULT_STYLE, mode: "solid", fillColor: "#000000" },
+  },
+  {
+    id: "soft-pixelate-24",
+    name: "Soft pixelate 24px",
+    style: { ...DEFAULT_STYLE, mode: "pixelate", blockSize: 24 },
+  },
+];
+
+const DEFAULT_EXPORT: ExportDefaults = {
+  personalInfo: DEFAULT_PERSONAL_INFO,
+  removeNotes: true,
+  removeComments: true,
+  stripMediaMetadata: true,
+  stripMacros: true,
+  thumbnail: "remove",
+};
+
+/** Name of the setting in Office roaming settings */
+const SETTING_NAME = "slideRedactSettings";
+
+/** Local copy; the only copy where Office has no roaming settings */
+const STORAGE_KEY = "slide-redact-settings";
+
+/** Marks a presets file exported for sharing */
+const PRESETS_FILE_TYPE = "slide-redact-presets";
+
+/**
+ * Office roaming settings, which follow the user between machines. Office only
+ * provides them in some hosts (not PowerPoint), so this is usually null and
+ * settings stay in local storage. The document's own settings are never used:
+ * they travel with the file being sanitized, and whoever sent the file could
+ * use them to change how it is exported.
+ */
+function roamingSettings(): Office.RoamingSettings | null {
+  try {
+    return Office.context.roamingSettings ?? null;
+  } catch {
+    return null;
+  }
+}
+
+const BLUR_MODES: BlurMode[] = ["pixelate", "blur", "solid"];
+
+const THUMBNAIL_MODES: ThumbnailMode[] = ["remove", "placeholder"];
+
+/** The ranges the block size and blur radius sliders allow. */
+const BLOCK_SIZE_RANGE: [number, number] = [4, 50];
+const BLUR_RADIUS_RANGE: [number, number] = [2, 40];
+
+function isIntegerIn(value: unknown, [min, max]: [number, number]): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+// Presets come from shared files and settings from storage, so anything out
+// of range (e.g. a huge blur radius, which would hang the blur) is rejected
+function isRegionStyle(value: unknown): value is RegionStyle {
+  const style = value as RegionStyle;
+  return (
+    typeof style === "object" &&
+    style !== null &&
+    BLUR_MODES.includes(style.mode) &&
+    isIntegerIn(style.blockSize, BLOCK_SIZE_RANGE) &&
+    typeof style.hardened === "boolean" &&
+    typeof style.shuffleBlocks === "boolean" &&
+    typeof style.fillColor === "string" &&
+    /^#[0-9a-f]{6}$/i.test(style.fillColor) &&
+    isIntegerIn(style.blurRadius, BLUR_RADIUS_RANGE)
+  );
+}
+
+function isPreset(value: unknown): value is RedactionPreset {
+  const preset = value as RedactionPreset;
+  return (
+    typeof preset === "object" &&
+    preset !== null &&
+    typeof preset.id === "string" &&
+    typeof preset.name === "string" &&
+    isRegionStyle(preset.style)
+  );
+}
+
+/** Take each export option from storage if it is valid, else from the defaults. */
+function normalizeExportDefaults(raw: unknown): ExportDefaults {
+  const stored = (typeof raw === "object" && raw !== null ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+  const personalInfo = (
+    typeof stored.personalInfo === "object" && stored.personalInfo !== null
+      ? stored.personalInfo
+      : {}
+  ) as Record<string, unknown>;
+  const flag = (
+    name: "removeNotes" | "removeComments" | "stripMediaMetadata" | "stripMacros"
+  ) => (typeof stored[name] === "boolean" ? (stored[name] as boolean) : DEFAULT_EXPORT[name]);
+
+  return {
+    personalInfo: Object.fromEntries(
+      PERSONAL_INFO_CATEGORIES.map((category) => [
+        category,
+        typeof personalInfo[category] === "boolean"
+          ? personalInfo[category]
+          : DEFAULT_PERSONAL_INFO[category],
+      ])
+    ) as ExportDefaults["personalInfo"],
+    removeNotes: flag("removeNotes"),
+    removeComments: flag("removeComments"),
+    stripMediaMetadata: flag("stripMediaMetadata"),
+    stripMacros: flag("stripMacros"),
+    thumbnail: THUMBNAIL_MODES.includes(stored.thumbnail as ThumbnailMode)
+      ? (stored.thumbnail as ThumbnailMode)
+      : DEFAULT_EXPORT.thumbnail,
+  };
+}
+
+/** Fill in anything missing or malformed from the defaults. */
+function normalizeSettings(raw: unknown): AddinSettings {
+  const stored = (typeof raw === "object" && raw !== null ? raw : {}) as Partial<AddinSettings>;
+  return {
+    defaultStyle: isRegionStyle(stored.defaultStyle) ? stored.defaultStyle : DEFAULT_STYLE,
+    presets: Array.isArray(stored.presets)
+      ? stored.presets.filter(isPreset)
+      : DEFAULT_PRESETS,
+    exportDefaults: normalizeExportDefaults(stored.exportDefaults),
+  };
+}
+
+/**
+ * Read the user's settings from roaming settings, or from the local copy when
+ * Office has none. Reading roaming settings refreshes the local copy, so a
+ * dialog opened afterwards sees the same settings.
+ */
+export function loadSettings(): AddinSettings {
+  const stored = roamingSettings()?.get(SETTING_NAME);
+  if (stored) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    return normalizeSettings(stored);
+  }
+  try {
+    return normalizeSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null"));
+  } catch {
+    return normalizeSettings(null);
+  }
+}
+
+/** Write the settings to the local copy and, where available, to roaming settings. */
+export async function saveSettings(settings: AddinSettings): Promise<void> {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+  const store = roamingSettings();
+  if (!store) return;
+  store.set(SETTING_NAME, settings);
+  await new Promise<void>((resolve, reject) => {
+    store.saveAsync((result) => {
+      if (result.status === Office.AsyncResultStatus.Succeeded) {
+        resolve();
+      } else {
+        reject(new Error(result.error?.message ?? "Failed to save settings"));
+      }
+    });
+  });
+}
+
+export function createPreset(name: string, style: RegionStyle): RedactionPreset {
+  return { id: generateId(), name, style };
+}
+
+/** Add presets, replacing existing ones with the same name. */
+export function mergePresets(
+  presets: RedactionPreset[],
+  added: RedactionPreset[]
+): RedactionPreset[] {
+  const names = new Set(added.map((p) => p.name));
+  return [...presets.filter((p) => !names.has(p.name)), ...added];
+}
+
+/** Presets as a JSON file to share with the team. */
+export function serializePresets(presets: RedactionPreset[]): string {
+  return JSON.stringify(
+    {
+      type: PRESETS_FILE_TYPE,
+      version: 1,
+      presets: presets.map(({ name, style }) => ({ name, style })),
+    },
+    null,
+    2
+  );
+}
+
+/** Read a presets file written by `serializePresets`; imported presets get new ids. */
+export function parsePresets(json: string): RedactionPreset[] {
+  let data: { type?: unknown; presets?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Not a SlideRedact presets file (invalid JSON).");
+  }
+  if (data?.type !== PRESETS_FILE_TYPE || !Array.isArray(data.presets)) {
+    throw new Error("Not a SlideRedact presets file.");
+  }
+
+  const presets = data.presets
+    .map((p) => ({ ...p, id: generateId() }))
+    .filter(isPreset);
+  if (presets.length !== data.presets.length) {
+    throw new Error(
+      `${data.presets.length - presets.length} preset(s) in the file are invalid.`
+    );
+  }
+  return presets;
+}
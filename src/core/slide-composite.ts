@@ -0,0 +1,111 @@
+import type { BlurRegion } from "../types/editor";
+import type { ShapeImageInfo } from "../types/office";
+import { loadImage, stripDataUrlPrefix } from "../utils/image-loader";
+import { scaleGeometry, translateGeometry } from "./region-geometry";
+
+/** Longest side of the composite, in pixels, to keep canvases manageable. */
+const MAX_COMPOSITE_SIZE = 4096;
+
+/** Where one picture sits in the composite, in composite pixels. */
+export interface ImagePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Pixel size of the picture itself */
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+/** Several pictures from one slide drawn into a single image. */
+export interface SlideComposite {
+  /** Base64 PNG of the composed pictures */
+  base64: string;
+  width: number;
+  height: number;
+  /** Composite pixels per slide point */
+  scale: number;
+  /** One entry per input image, in the same order */
+  placements: ImagePlacement[];
+}
+
+/**
+ * Draw pictures into one image using their slide positions (in points), in
+ * the given order — back to front. The composite covers the union of their
+ * frames and uses the finest resolution among them, so no picture loses
+ * detail. Rotation is not applied; pictures are drawn in their unrotated frame.
+ */
+export async function composeSlide(images: ShapeImageInfo[]): Promise<SlideComposite> {
+  if (images.length === 0) throw new Error("No images to compose");
+
+  const loaded = await Promise.all(images.map((image) => loadImage(image.base64)));
+
+  const left = Math.min(...images.map((i) => i.left));
+  const top = Math.min(...images.map((i) => i.top));
+  const right = Math.max(...images.map((i) => i.left + i.width));
+  const bottom = Math.max(...images.map((i) => i.top + i.height));
+
+  const detail = Math.max(
+    ...images.map((image, i) => loaded[i].naturalWidth / Math.max(image.width, 1))
+  );
+  const scale = Math.min(detail, MAX_COMPOSITE_SIZE / Math.max(right - left, bottom - top));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round((right - left) * scale));
+  canvas.height = Math.max(1, Math.round((bottom - top) * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to create canvas context");
+
+  const placements = images.map((image, i): ImagePlacement => {
+    const placement = {
+      x: (image.left - left) * scale,
+      y: (image.top - top) * scale,
+      width: image.width * scale,
+      height: image.height * scale,
+      naturalWidth: loaded[i].naturalWidth,
+      naturalHeight: loaded[i].naturalHeight,
+    };
+    ctx.drawImage(loaded[i], placement.x, placement.y, placement.width, placement.height);
+    return placement;
+  });
+
+  return {
+    base64: stripDataUrlPrefix(canvas.toDataURL("image/png")),
+    width: canvas.width,
+    height: canvas.height,
+    scale,
+    placements,
+  };
+}
+
+/**
+ * Map regions drawn on the composite into one picture's pixel space.
+ * Regions that miss the picture are dropped. Block size and blur radius are
+ * scaled with the geometry, so the effect looks the same size on the slide.
+ */
+export function mapRegionsToImage(
+  regions: BlurRegion[],
+  placement: ImagePlacement
+): BlurRegion[] {
+  const scaleX = placement.naturalWidth / placement.width;
+  const scaleY = placement.naturalHeight / placement.height;
+  const styleScale = (scaleX + scaleY) / 2;
+
+  return regions
+    .map((region) => {
+      const local = translateGeometry(region, -placement.x, -placement.y);
+      const mapped = scaleGeometry(local, 1 / scaleX, 1 / scaleY);
+      return {
+        ...mapped,
+        blockSize: Math.max(1, Math.round(region.blockSize * styleScale)),
+        blurRadius: Math.max(1, Math.round(region.blurRadius * styleScale)),
+      };
+    })
+    .filter(
+      (r) =>
+        r.x < placement.naturalWidth &&
+        r.y < placement.naturalHeight &&
+        r.x + r.width > 0 &&
+        r.y + r.height > 0
+    );
+}
@@ -1,9 +1,28 @@
 import { useRef, useEffect, useCallback, useState } from "react";
-import type { BlurRegion } from "../types/editor";
+import type {
+  BlurRegion,
+  RegionBounds,
+  RegionGeometry,
+  RegionStyle,
+} from "../types/editor";
 import { loadImage } from "../utils/image-loader";
-import { renderPreview } from "../core/image-processor";
+import {
+  applyRegionsToLayer,
+  renderOverlay,
+  renderRegionLayer,
+  renderRegionLayerArea,
+  unionBounds,
+} from "../core/image-processor";
 
-interface DrawRect {
+/** Cached image-resolution bitmap with regions applied, and its inputs. */
+interface RegionLayerCache {
+  canvas: HTMLCanvasElement;
+  img: HTMLImageElement | null;
+  regions: BlurRegion[] | null;
+}
+
+/** Visible part of the zoomed image, in display pixels. */
+interface Viewport {
   x: number;
   y: number;
   width: number;
@@ -22,12 +41,13 @@ interface ZoomAnchor {
 export function useCanvasRenderer(
   base64: string | null,
   regions: BlurRegion[],
-  drawState: DrawRect | null,
-  currentMode: "pixelate" | "solid",
-  currentBlockSize: number,
-  currentFillColor: string
+  drawState: RegionGeometry | null,
+  currentStyle: RegionStyle,
+  activeRegionId: string | null = null
 ) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Element sized to the full zoomed image; it provides the scroll extent
+  const surfaceRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement | null>(null);
   const animFrameRef = useRef<number>(0);
@@ -37,19 +57,21 @@ export function useCanvasRenderer(
   } | null>(null);
   const [zoom, setZoom] = useState(1);
   const zoomAnchorRef = useRef<ZoomAnchor | null>(null);
+  const layerRef = useRef<RegionLayerCache | null>(null);
+  // Full zoomed size of the image, and the part of it currently on screen
+  const displayRef = useRef<{ width: number; height: number } | null>(null);
+  const viewportRef = useRef<Viewport | null>(null);
 
   // Store render params in refs so `render` identity stays stable
   const regionsRef = useRef(regions);
   const drawStateRef = useRef(drawState);
-  const modeRef = useRef(currentMode);
-  const blockSizeRef = useRef(currentBlockSize);
-  const fillColorRef = useRef(currentFillColor);
+  const styleRef = useRef(currentStyle);
+  const activeRegionIdRef = useRef(activeRegionId);
 
   regionsRef.current = regions;
   drawStateRef.current = drawState;
-  modeRef.current = currentMode;
-  blockSizeRef.current = currentBlockSize;
-  fillColorRef.current = currentFillColor;
+  styleRef.current = currentStyle;
+  activeRegionIdRef.current = activeRegionId;
 
   // Load image when base64 changes
   useEffect(() => {
@@ -74,6 +96,88 @@ export function useCanvasRenderer(
     setZoom(1);
   }, [base64]);
 
+  /**
+   * Fit the canvas to the part of the zoomed surface that is visible in the
+   * scroll container. The canvas never grows beyond the viewport, so deep zoom
+   * on large images stays within browser canvas limits and memory.
+   */
+  const updateViewport = useCallback(() => {
+    const canvas = canvasRef.current;
+    const surface = surfaceRef.current;
+    const container = containerRef.current;
+    const display = displayRef.current;
+    if (!canvas || !surface || !container || !display) return;
+
+    const surfaceRect = surface.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    const viewLeft = containerRect.left + container.clientLeft - surfaceRect.left;
+    const viewTop = containerRect.top + container.clientTop - surfaceRect.top;
+
+    const clampX = (v: number) => Math.min(display.width, Math.max(0, Math.round(v)));
+    const clampY = (v: number) => Math.min(display.height, Math.max(0, Math.round(v)));
+    const x0 = clampX(viewLeft);
+    const y0 = clampY(viewTop);
+    const x1 = clampX(viewLeft + container.clientWidth);
+    const y1 = clampY(viewTop + container.clientHeight);
+
+    const view = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+    viewportRef.current = view;
+
+    if (canvas.width !== view.width) canvas.width = view.width;
+    if (canvas.height !== view.height) canvas.height = view.height;
+    canvas.style.left = `${view.x}px`;
+    canvas.style.top = `${view.y}px`;
+    canvas.style.width = `${view.width}px`;
+    canvas.style.height = `${view.height}px`;
+  }, []);
+
+  /**
+   * Bring the image-resolution region layer up to date. Regions appended since
+   * the last render are applied incrementally. Other changes (a region being
+   * moved, resized or restyled, removed or reordered) only redraw the area
+   * around the regions that changed; a new image rebuilds the whole layer.
+   */
+  const updateLayer = useCallback((img: HTMLImageElement): HTMLCanvasElement | null => {
+    const regions = regionsRef.current;
+    let layer = layerRef.current;
+    if (!layer) {
+      layer = { canvas: document.createElement("canvas"), img: null, regions: null };
+      layerRef.current = layer;
+    }
+    if (layer.img === img && layer.regions === regions) return layer.canvas;
+
+    const layerCtx = layer.canvas.getContext("2d");
+    if (!layerCtx) return null;
+
+    const previous = layer.regions;
+    const appended =
+      layer.img === img &&
+      previous !== null &&
+      regions.length > previous.length &&
+      previous.every((r, i) => r === regions[i]);
+
+    if (appended) {
+      applyRegionsToLayer(layerCtx, regions.slice(previous.length));
+    } else if (layer.img === img && previous !== null) {
+      // Regions are compared by position, so a reorder marks both places
+      let changed: RegionBounds | null = null;
+      for (let i = 0; i < Math.max(previous.length, regions.length); i++) {
+        if (previous[i] === regions[i]) continue;
+        for (const region of [previous[i], regions[i]]) {
+          if (region) changed = changed ? unionBounds(changed, region) : region;
+        }
+      }
+      if (changed) renderRegionLayerArea(layerCtx, img, regions, changed);
+    } else {
+      layer.canvas.width = img.naturalWidth;
+      layer.canvas.height = img.naturalHeight;
+      renderRegionLayer(layerCtx, img, regions);
+    }
+    layer.img = img;
+    layer.regions = regions;
+    return layer.canvas;
+  }, []);
+
   // Stable render function — reads from refs, never causes dependency cascades
   const render = useCallback(() => {
     const canvas = canvasRef.current;
@@ -85,41 +189,98 @@ export function useCanvasRenderer(
 
     cancelAnimationFrame(animFrameRef.current);
     animFrameRef.current = requestAnimationFrame(() => {
-      renderPreview(
+      const view = viewportRef.current;
+      const display = displayRef.current;
+      if (!view || !display || view.width === 0 || view.height === 0) return;
+
+      const layer = updateLayer(img);
+      if (!layer) return;
+
+      // Resample only the visible part of the layer. Upscaling stays crisp
+      // so pixel blocks are shown as they will be exported.
+      const scaleX = img.naturalWidth / display.width;
+      const scaleY = img.naturalHeight / display.height;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.imageSmoothingEnabled = scaleX > 1;
+      ctx.drawImage(
+        layer,
+        view.x * scaleX,
+        view.y * scaleY,
+        view.width * scaleX,
+        view.height * scaleY,
+        0,
+        0,
+        view.width,
+        view.height
+      );
+
+      // The overlay works in full display coordinates; shift it into the viewport
+      ctx.save();
+      ctx.translate(-view.x, -view.y);
+      renderOverlay(
         ctx,
-        img,
+        img.naturalWidth,
+        img.naturalHeight,
+        display.width,
+        display.height,
         regionsRef.current,
         drawStateRef.current,
-        modeRef.current,
-        blockSizeRef.current,
-        fillColorRef.current
+        styleRef.current,
+        activeRegionIdRef.current
       );
+      ctx.restore();
     });
-  }, []); // Stable — no deps, reads from refs
+  }, [updateLayer]); // Stable — reads from refs
 
   // Re-render when any drawing parameter changes
   useEffect(() => {
     render();
-  }, [regions, drawState, currentMode, currentBlockSize, currentFillColor, render]);
+  }, [
+    regions,
+    drawState,
+    currentStyle.mode,
+    currentStyle.blockSize,
+    currentStyle.fillColor,
+    currentStyle.blurRadius,
+    activeRegionId,
+    render,
+  ]);
 
-  // Resize canvas based on zoom — only runs when zoom or image changes
+  // Repaint the newly visible area on scroll and when the container resizes
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !imageSize) return;
+
+    const handler = () => {
+      updateViewport();
+      render();
+    };
+    container.addEventListener("scroll", handler, { passive: true });
+    const observer = new ResizeObserver(handler);
+    observer.observe(container);
+    return () => {
+      container.removeEventListener("scroll", handler);
+      observer.disconnect();
+    };
+  }, [imageSize, updateViewport, render]);
+
+  // Size the scroll surface based on zoom — only runs when zoom or image changes
   useEffect(() => {
     if (!imageSize) return;
 
-    const canvas = canvasRef.current;
+    const surface = surfaceRef.current;
     const img = imageRef.current;
     const container = containerRef.current;
-    if (!canvas || !img || !container) return;
+    if (!surface || !img || !container) return;
 
     const baseWidth = container.clientWidth;
     const aspect = img.naturalWidth / img.naturalHeight;
     const displayWidth = Math.round(baseWidth * zoom);
     const displayHeight = Math.round(displayWidth / aspect);
 
-    canvas.width = displayWidth;
-    canvas.height = displayHeight;
-    canvas.style.width = `${displayWidth}px`;
-    canvas.style.height = `${displayHeight}px`;
+    displayRef.current = { width: displayWidth, height: displayHeight };
+    surface.style.width = `${displayWidth}px`;
+    surface.style.height = `${displayHeight}px`;
 
     // Apply scroll anchor so the point under cursor stays put
     const anchor = zoomAnchorRef.current;
@@ -129,8 +290,9 @@ export function useCanvasRenderer(
       zoomAnchorRef.current = null;
     }
 
+    updateViewport();
     render();
-  }, [imageSize, zoom, render]);
+  }, [imageSize, zoom, updateViewport, render]);
 
   /**
    * Zoom to a specific level, anchored at a cursor position.
@@ -179,6 +341,7 @@ export function useCanvasRenderer(
 
   return {
     canvasRef,
+    surfaceRef,
     containerRef,
     imageRef,
     imageSize,
@@ -1,5 +1,10 @@
 import { useState, useCallback, useRef } from "react";
-import type { BlurRegion, BlurMode } from "../types/editor";
+import type {
+  BlurRegion,
+  RegionGeometry,
+  RegionStyle,
+} from "../types/editor";
+import { normalizeGeometry } from "../core/region-geometry";
 import { generateId } from "../utils/file-helpers";
 
 export function useRegions() {
@@ -7,6 +12,8 @@ export function useRegions() {
   // Undo/redo stacks store snapshots of the regions array
   const undoStack = useRef<BlurRegion[][]>([]);
   const redoStack = useRef<BlurRegion[][]>([]);
+  // Regions as they were when the current interactive edit began
+  const editSnapshot = useRef<BlurRegion[] | null>(null);
 
   /** Push current state onto undo stack before mutating */
   const pushUndo = useCallback((current: BlurRegion[]) => {
@@ -16,31 +23,19 @@ export function useRegions() {
   }, []);
 
   const addRegion = useCallback(
-    (
-      x: number,
-      y: number,
-      width: number,
-      height: number,
-      mode: BlurMode,
-      blockSize: number,
-      fillColor: string
-    ) => {
-      const nx = width < 0 ? x + width : x;
-      const ny = height < 0 ? y + height : y;
-      const nw = Math.abs(width);
-      const nh = Math.abs(height);
-
-      if (nw < 2 || nh < 2) return;
+    (geometry: RegionGeometry, style: RegionStyle) => {
+      const normalized = normalizeGeometry(geometry);
+      if (normalized.width < 2 || normalized.height < 2) return;
 
       const region: BlurRegion = {
+        ...normalized,
         id: generateId(),
-        x: nx,
-        y: ny,
-        width: nw,
-        height: nh,
-        mode,
-        blockSize,
-        fillColor,
+        mode: style.mode,
+        blockSize: style.blockSize,
+        hardened: style.hardened,
+        shuffleBlocks: style.shuffleBlocks,
+        fillColor: style.fillColor,
+        blurRadius: style.blurRadius,
       };
       setRegions((prev) => {
         pushUndo(prev);
@@ -61,6 +56,70 @@ export function useRegions() {
     [pushUndo]
   );
 
+  /** Apply changes to one region as a single undoable step. */
+  const updateRegion = useCallback(
+    (id: string, changes: Partial<BlurRegion>) => {
+      setRegions((prev) => {
+        pushUndo(prev);
+        return prev.map((r) =>
+          r.id === id ? ({ ...r, ...changes, id } as BlurRegion) : r
+        );
+      });
+    },
+    [pushUndo]
+  );
+
+  /** Move a region to a new position in paint order, as one undoable step. */
+  const reorderRegion = useCallback(
+    (id: string, toIndex: number) => {
+      setRegions((prev) => {
+        const from = prev.findIndex((r) => r.id === id);
+        const to = Math.max(0, Math.min(prev.length - 1, toIndex));
+        if (from < 0 || from === to) return prev;
+        pushUndo(prev);
+        const next = [...prev];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        return next;
+      });
+    },
+    [pushUndo]
+  );
+
+  /**
+   * Start an interactive edit (e.g. a drag). Intermediate updates made with
+   * `previewRegion` are not recorded; `endEdit` records the whole gesture as
+   * one undo step.
+   */
+  const beginEdit = useCallback(() => {
+    setRegions((current) => {
+      editSnapshot.current = current;
+      return current;
+    });
+  }, []);
+
+  const previewRegion = useCallback(
+    (id: string, changes: Partial<BlurRegion>) => {
+      setRegions((prev) =>
+        prev.map((r) =>
+          r.id === id ? ({ ...r, ...changes, id } as BlurRegion) : r
+        )
+      );
+    },
+    []
+  );
+
+  const endEdit = useCallback(() => {
+    const snapshot = editSnapshot.current;
+    editSnapshot.current = null;
+    if (!snapshot) return;
+    setRegions((current) => {
+      // A click without movement leaves nothing to undo
+      if (current !== snapshot) pushUndo(snapshot);
+      return current;
+    });
+  }, [pushUndo]);
+
   const clearRegions = useCallback(() => {
     setRegions((prev) => {
       if (prev.length > 0) pushUndo(prev);
@@ -95,6 +154,11 @@ export function useRegions() {
     regions,
     addRegion,
     removeRegion,
+    updateRegion,
+    reorderRegion,
+    beginEdit,
+    previewRegion,
+    endEdit,
     clearRegions,
     undo,
     redo,
@@ -0,0 +1,17 @@
+import { useState, useCallback } from "react";
+import { loadSettings, saveSettings, type AddinSettings } from "../core/settings";
+
+export function useSettings() {
+  const [settings, setSettings] = useState<AddinSettings>(loadSettings);
+
+  // Merge into the stored settings rather than this component's copy, so
+  // changes made elsewhere in the meantime (e.g. the dialog) are kept
+  const updateSettings = useCallback((patch: Partial<AddinSettings>) => {
+    const next = { ...loadSettings(), ...patch };
+    setSettings(next);
+    saveSettings(next).catch((err) => console.error("Failed to save settings", err));
+    return next;
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -1,8 +1,8 @@
 import { useState, useCallback } from "react";
-import type { ShapeImageInfo } from "../types/office";
+import type { ShapeImageInfo, ScanScope } from "../types/office";
 import { getSlideImages } from "../core/office-api";
 
-export function useSlideImages() {
+export function useSlideImages(scope: ScanScope, includeLayouts: boolean) {
   const [images, setImages] = useState<ShapeImageInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -11,7 +11,7 @@ export function useSlideImages() {
     setLoading(true);
     setError(null);
     try {
-      const slideImages = await getSlideImages();
+      const slideImages = await getSlideImages(scope, includeLayouts);
       setImages(slideImages);
     } catch (err) {
       const message =
@@ -21,7 +21,7 @@ export function useSlideImages() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [scope, includeLayouts]);
 
   return { images, loading, error, refresh };
 }
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import type { ShapeImageInfo } from "../types/office";
+import type { BlurRegion } from "../types/editor";
+import {
+  deleteTemplate,
+  loadTemplates,
+  type RegionTemplate,
+} from "../core/region-template";
+import { base64ToDataUrl } from "../utils/image-loader";
+import { imageKey } from "./ImageList";
+
+interface BatchTemplateProps {
+  images: ShapeImageInfo[];
+  onApply: (template: RegionTemplate, images: ShapeImageInfo[]) => void;
+  onCancel: () => void;
+}
+
+/** Outline of a template region in the 0–1 box of the preview overlay. */
+function RegionOutline({ region }: { region: BlurRegion }) {
+  const fill = region.mode === "solid" ? region.fillColor : "rgba(0, 102, 204, 0.35)";
+  const common = {
+    fill,
+    stroke: "#0066cc",
+    strokeWidth: 1,
+    vectorEffect: "non-scaling-stroke" as const,
+  };
+
+  switch (region.shape) {
+    case "rect":
+      return (
+        <rect x={region.x} y={region.y} width={region.width} height={region.height} {...common} />
+      );
+    case "ellipse":
+      return (
+        <ellipse
+          cx={region.x + region.width / 2}
+          cy={region.y + region.height / 2}
+          rx={region.width / 2}
+          ry={region.height / 2}
+          {...common}
+        />
+      );
+    case "polygon":
+    case "lasso":
+      return (
+        <polygon points={region.points.map((p) => `${p.x},${p.y}`).join(" ")} {...common} />
+      );
+  }
+}
+
+/**
+ * Pick a saved region template and preview where it lands on each of the
+ * chosen images before applying it to all of them.
+ */
+export function BatchTemplate({ images, onApply, onCancel }: BatchTemplateProps) {
+  const [templates, setTemplates] = useState<RegionTemplate[]>(loadTemplates);
+  const [templateId, setTemplateId] = useState<string | null>(
+    () => templates[0]?.id ?? null
+  );
+  const template = templates.find((t) => t.id === templateId) ?? null;
+
+  const handleDelete = () => {
+    if (!template) return;
+    const remaining = deleteTemplate(template.id);
+    setTemplates(remaining);
+    setTemplateId(remaining[0]?.id ?? null);
+  };
+
+  return (
+    <div className="batch-template">
+      <div className="image-list-header">
+        <span>
+          Apply a template to {images.length} image{images.length !== 1 ? "s" : ""}
+        </span>
+        <button className="btn btn-ghost btn-sm" onClick={onCancel}>
+          Back
+        </button>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="section-desc">
+          No templates saved yet. Open an image in the editor, draw the regions and
+          use <strong>Save as Template</strong>.
+        </p>
+      ) : (
+        <div className="control-group">
+          <label className="control-label">Template</label>
+          <div className="template-save">
+            <select
+              className="region-mode-select"
+              value={templateId ?? ""}
+              onChange={(e) => setTemplateId(e.target.value)}
+            >
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name} ({t.regions.length} region{t.regions.length !== 1 ? "s" : ""})
+                </option>
+              ))}
+            </select>
+            <button className="btn btn-ghost btn-sm region-delete" onClick={handleDelete}>
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="image-grid batch-preview-grid">
+        {images.map((img) => (
+          <div key={imageKey(img)} className="batch-preview">
+            <div className="batch-preview-frame">
+              <img src={base64ToDataUrl(img.base64)} alt={img.name} />
+              {template && (
+                <svg viewBox="0 0 1 1" preserveAspectRatio="none">
+                  {template.regions.map((region) => (
+                    <RegionOutline key={region.id} region={region} />
+                  ))}
+                </svg>
+              )}
+            </div>
+            <span className="image-name">
+              Slide {img.slideIndex + 1} · {img.name}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <button
+        className="btn btn-primary btn-lg"
+        onClick={() => template && onApply(template, images)}
+        disabled={!template}
+      >
+        Apply to {images.length} Image{images.length !== 1 ? "s" : ""}
+      </button>
+    </div>
+  );
+}
@@ -1,30 +1,93 @@
-import type { BlurMode } from "../types/editor";
+import type { BlurMode, EditorTool, RegionStyle } from "../types/editor";
+import type { RedactionPreset } from "../core/settings";
+import { PresetControls } from "./PresetControls";
+
+const TOOLS: { value: EditorTool; label: string; hint: string }[] = [
+  {
+    value: "select",
+    label: "Select",
+    hint: "Click a region to select it; drag to move, drag handles to resize",
+  },
+  { value: "rect", label: "Rect", hint: "Drag to draw a rectangle" },
+  { value: "ellipse", label: "Ellipse", hint: "Drag to draw an ellipse" },
+  {
+    value: "polygon",
+    label: "Polygon",
+    hint: "Click to place points; click the first point, double-click or press Enter to close",
+  },
+  { value: "lasso", label: "Lasso", hint: "Drag to draw a freehand outline" },
+];
 
 interface BlurControlsProps {
   mode: BlurMode;
+  tool: EditorTool;
   blockSize: number;
+  hardened: boolean;
+  shuffleBlocks: boolean;
   fillColor: string;
+  blurRadius: number;
   regionCount: number;
+  presets: RedactionPreset[];
   onModeChange: (mode: BlurMode) => void;
+  onToolChange: (tool: EditorTool) => void;
   onBlockSizeChange: (size: number) => void;
+  onHardenedChange: (hardened: boolean) => void;
+  onShuffleBlocksChange: (shuffle: boolean) => void;
   onFillColorChange: (color: string) => void;
+  onBlurRadiusChange: (radius: number) => void;
   onClearRegions: () => void;
   onApplyFullImage: () => void;
+  onApplyPreset: (style: RegionStyle) => void;
+  onPresetsChange: (presets: RedactionPreset[]) => void;
 }
 
 export function BlurControls({
   mode,
+  tool,
   blockSize,
+  hardened,
+  shuffleBlocks,
   fillColor,
+  blurRadius,
   regionCount,
+  presets,
   onModeChange,
+  onToolChange,
   onBlockSizeChange,
+  onHardenedChange,
+  onShuffleBlocksChange,
   onFillColorChange,
+  onBlurRadiusChange,
   onClearRegions,
   onApplyFullImage,
+  onApplyPreset,
+  onPresetsChange,
 }: BlurControlsProps) {
   return (
     <div className="blur-controls">
+      <div className="control-group">
+        <label className="control-label">Tool</label>
+        <div className="mode-toggle tool-toggle">
+          {TOOLS.map((t) => (
+            <button
+              key={t.value}
+              className={`mode-btn ${tool === t.value ? "active" : ""}`}
+              onClick={() => onToolChange(t.value)}
+              title={t.hint}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <PresetControls
+        style={{ mode, blockSize, hardened, shuffleBlocks, fillColor, blurRadius }}
+        presets={presets}
+        onApplyPreset={onApplyPreset}
+        onPresetsChange={onPresetsChange}
+      />
+
       <div className="control-group">
         <label className="control-label">Mode</label>
         <div className="mode-toggle">
@@ -34,6 +97,12 @@ export function BlurControls({
           >
             Pixelate
           </button>
+          <button
+            className={`mode-btn ${mode === "blur" ? "active" : ""}`}
+            onClick={() => onModeChange("blur")}
+          >
+            Blur
+          </button>
           <button
             className={`mode-btn ${mode === "solid" ? "active" : ""}`}
             onClick={() => onModeChange("solid")}
@@ -43,7 +112,7 @@ export function BlurControls({
         </div>
       </div>
 
-      {mode === "pixelate" ? (
+      {mode === "pixelate" && (
         <div className="control-group">
           <label className="control-label">
             Block Size: {blockSize}px
@@ -56,8 +125,50 @@ export function BlurControls({
             onChange={(e) => onBlockSizeChange(Number(e.target.value))}
             className="block-size-slider"
           />
+          <label
+            className="checkbox-label"
+            title="Randomizes the block grid and adds noise so text can't be reconstructed by depixelation tools"
+          >
+            <input
+              type="checkbox"
+              checked={hardened}
+              onChange={(e) => onHardenedChange(e.target.checked)}
+            />
+            Harden against depixelation
+          </label>
+          {hardened && (
+            <label
+              className="checkbox-label"
+              title="Also swaps the averages of each block's quarters, so blocks don't keep their exact layout"
+            >
+              <input
+                type="checkbox"
+                checked={shuffleBlocks}
+                onChange={(e) => onShuffleBlocksChange(e.target.checked)}
+              />
+              Shuffle sub-blocks
+            </label>
+          )}
         </div>
-      ) : (
+      )}
+
+      {mode === "blur" && (
+        <div className="control-group">
+          <label className="control-label">
+            Blur Radius: {blurRadius}px
+          </label>
+          <input
+            type="range"
+            min={2}
+            max={40}
+            value={blurRadius}
+            onChange={(e) => onBlurRadiusChange(Number(e.target.value))}
+            className="block-size-slider"
+          />
+        </div>
+      )}
+
+      {mode === "solid" && (
         <div className="control-group">
           <label className="control-label">Fill Color</label>
           <div className="color-picker-row">
@@ -1,29 +1,75 @@
-import { useState, useCallback, useEffect, useRef } from "react";
-import type { BlurMode } from "../types/editor";
-import type { ShapeImageInfo } from "../types/office";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type {
+  BlurMode,
+  EditorTool,
+  RegionGeometry,
+  RegionStyle,
+} from "../types/editor";
+import type { ReplacementWarning, ShapeImageInfo } from "../types/office";
 import { useRegions } from "../hooks/useRegions";
+import { useSettings } from "../hooks/useSettings";
 import { useCanvasRenderer } from "../hooks/useCanvasRenderer";
+import type { AddinSettings, RedactionPreset } from "../core/settings";
 import { BlurControls } from "./BlurControls";
 import { RegionSelector } from "./RegionSelector";
+import { RegionTransformer } from "./RegionTransformer";
+import { RegionList } from "./RegionList";
+import { ReplacementWarnings } from "./ReplacementWarnings";
+import {
+  composeSlide,
+  mapRegionsToImage,
+  type SlideComposite,
+} from "../core/slide-composite";
+import { createTemplate, storeTemplate } from "../core/region-template";
+import { isTypingTarget } from "../utils/keyboard";
 
 const STORAGE_KEY = "slide-redact-dialog-image";
+const WARNINGS_KEY = "slide-redact-dialog-warnings";
+const SLIDE_KEY = "slide-redact-dialog-slide";
+
+/** Opened with ?mode=slide to redact across all of a slide's pictures at once */
+const SLIDE_MODE = new URLSearchParams(window.location.search).get("mode") === "slide";
 
 export function DialogEditor() {
   const [image, setImage] = useState<ShapeImageInfo | null>(null);
-  const [mode, setMode] = useState<BlurMode>("pixelate");
-  const [blockSize, setBlockSize] = useState(10);
-  const [fillColor, setFillColor] = useState("#000000");
+  const [slideImages, setSlideImages] = useState<ShapeImageInfo[]>([]);
+  const [composite, setComposite] = useState<SlideComposite | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<ReplacementWarning[]>([]);
+  const { settings, updateSettings } = useSettings();
+  const [mode, setMode] = useState<BlurMode>(settings.defaultStyle.mode);
+  const [tool, setTool] = useState<EditorTool>("rect");
+  const [activeRegionId, setActiveRegionId] = useState<string | null>(null);
+  const [blockSize, setBlockSize] = useState(settings.defaultStyle.blockSize);
+  const [hardened, setHardened] = useState(settings.defaultStyle.hardened);
+  const [shuffleBlocks, setShuffleBlocks] = useState(settings.defaultStyle.shuffleBlocks);
+  const [fillColor, setFillColor] = useState(settings.defaultStyle.fillColor);
+  const [blurRadius, setBlurRadius] = useState(settings.defaultStyle.blurRadius);
+  const style = useMemo<RegionStyle>(
+    () => ({ mode, blockSize, hardened, shuffleBlocks, fillColor, blurRadius }),
+    [mode, blockSize, hardened, shuffleBlocks, fillColor, blurRadius]
+  );
 
-  const [drawState, setDrawState] = useState<{
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  } | null>(null);
+  const [drawState, setDrawState] = useState<RegionGeometry | null>(null);
+  const [templateName, setTemplateName] = useState("");
+  const [savedTemplate, setSavedTemplate] = useState<string | null>(null);
 
   // Load image data from localStorage (put there by the taskpane)
   useEffect(() => {
     try {
+      setWarnings(JSON.parse(localStorage.getItem(WARNINGS_KEY) ?? "[]"));
+      if (SLIDE_MODE) {
+        const images: ShapeImageInfo[] = JSON.parse(
+          localStorage.getItem(SLIDE_KEY) ?? "[]"
+        );
+        setSlideImages(images);
+        composeSlide(images)
+          .then(setComposite)
+          .catch((err) =>
+            setLoadError(err instanceof Error ? err.message : "Failed to compose slide")
+          );
+        return;
+      }
       const raw = localStorage.getItem(STORAGE_KEY);
       if (raw) {
         setImage(JSON.parse(raw));
@@ -33,10 +79,21 @@ export function DialogEditor() {
     }
   }, []);
 
+  // In slide mode the regions are drawn on the composite of all pictures
+  const editorBase64 = SLIDE_MODE ? (composite?.base64 ?? null) : (image?.base64 ?? null);
+  const title = SLIDE_MODE
+    ? `Slide ${(slideImages[0]?.slideIndex ?? 0) + 1} (${slideImages.length} images)`
+    : (image?.name ?? "");
+
   const {
     regions,
     addRegion,
     removeRegion,
+    updateRegion,
+    reorderRegion,
+    beginEdit,
+    previewRegion,
+    endEdit,
     clearRegions,
     undo,
     redo,
@@ -46,6 +103,7 @@ export function DialogEditor() {
 
   const {
     canvasRef,
+    surfaceRef,
     containerRef,
     imageSize,
     zoom,
@@ -55,12 +113,11 @@ export function DialogEditor() {
     zoomReset,
     render,
   } = useCanvasRenderer(
-    image?.base64 ?? null,
+    editorBase64,
     regions,
     drawState,
-    mode,
-    blockSize,
-    fillColor
+    style,
+    activeRegionId
   );
 
   const imageReady = imageSize !== null;
@@ -72,6 +129,8 @@ export function DialogEditor() {
   // Keyboard shortcuts
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
+      // Leave keys typed into a field (e.g. the template name) to the field
+      if (isTypingTarget(e.target)) return;
       if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === "z") {
         e.preventDefault();
         redo();
@@ -79,9 +138,16 @@ export function DialogEditor() {
         e.preventDefault();
         undo();
       } else if (e.key === "Delete" || e.key === "Backspace") {
-        if (regions.length > 0) {
-          removeRegion(regions[regions.length - 1].id);
+        // Delete the selected region, or the most recent one if none is selected
+        const target =
+          regions.find((r) => r.id === activeRegionId) ??
+          regions[regions.length - 1];
+        if (target) {
+          removeRegion(target.id);
+          setActiveRegionId(null);
         }
+      } else if (e.key === "Escape") {
+        setActiveRegionId(null);
       } else if ((e.metaKey || e.ctrlKey) && e.key === "=") {
         e.preventDefault();
         zoomIn();
@@ -95,7 +161,7 @@ export function DialogEditor() {
     };
     window.addEventListener("keydown", handler);
     return () => window.removeEventListener("keydown", handler);
-  }, [regions, removeRegion, undo, redo, zoomIn, zoomOut, zoomReset]);
+  }, [regions, activeRegionId, removeRegion, undo, redo, zoomIn, zoomOut, zoomReset]);
 
   // Scroll wheel / trackpad pinch zoom — re-attach when imageReady changes
   const zoomRef = useRef(zoom);
@@ -115,38 +181,122 @@ export function DialogEditor() {
     return () => container.removeEventListener("wheel", handler);
   }, [imageReady, containerRef, zoomAt]);
 
+  const handleToolChange = useCallback((next: EditorTool) => {
+    setTool(next);
+    if (next !== "select") setActiveRegionId(null);
+  }, []);
+
+  // Selecting from the list switches to the select tool so handles are usable
+  const handleListSelect = useCallback((id: string | null) => {
+    setActiveRegionId(id);
+    if (id) setTool("select");
+  }, []);
+
+  const handleRemoveRegion = useCallback(
+    (id: string) => {
+      removeRegion(id);
+      setActiveRegionId((current) => (current === id ? null : current));
+    },
+    [removeRegion]
+  );
+
   const handleRegionComplete = useCallback(
-    (x: number, y: number, width: number, height: number) => {
-      addRegion(x, y, width, height, mode, blockSize, fillColor);
+    (geometry: RegionGeometry) => {
+      addRegion(geometry, style);
     },
-    [addRegion, mode, blockSize, fillColor]
+    [addRegion, style]
+  );
+
+  // The dialog has no roaming settings to save to, so the taskpane saves them for it
+  const persistSettings = useCallback(
+    (patch: Partial<AddinSettings>) => {
+      const next = updateSettings(patch);
+      Office.context.ui.messageParent(
+        JSON.stringify({ type: "save-settings", settings: next })
+      );
+    },
+    [updateSettings]
+  );
+
+  const handleApplyPreset = useCallback((preset: RegionStyle) => {
+    setMode(preset.mode);
+    setBlockSize(preset.blockSize);
+    setHardened(preset.hardened);
+    setShuffleBlocks(preset.shuffleBlocks);
+    setFillColor(preset.fillColor);
+    setBlurRadius(preset.blurRadius);
+  }, []);
+
+  const handlePresetsChange = useCallback(
+    (presets: RedactionPreset[]) => persistSettings({ presets }),
+    [persistSettings]
   );
 
   const handleApplyFullImage = useCallback(() => {
     if (!imageSize) return;
-    addRegion(0, 0, imageSize.width, imageSize.height, mode, blockSize, fillColor);
-  }, [addRegion, mode, blockSize, fillColor, imageSize]);
+    addRegion(
+      { shape: "rect", x: 0, y: 0, width: imageSize.width, height: imageSize.height },
+      style
+    );
+  }, [addRegion, style, imageSize]);
+
+  // Keep the regions for batch use on other images, relative to this one's size
+  const handleSaveTemplate = useCallback(() => {
+    const name = templateName.trim();
+    if (!imageSize || !name || regions.length === 0) return;
+    storeTemplate(createTemplate(name, regions, imageSize.width, imageSize.height));
+    setSavedTemplate(name);
+    setTemplateName("");
+  }, [templateName, regions, imageSize]);
 
   // Send regions back to the taskpane and close dialog
   const handleApply = useCallback(() => {
     if (regions.length === 0) return;
+    // The next editor opens with the style used here
+    persistSettings({ defaultStyle: style });
+    if (composite) {
+      // Split the regions up by the pictures they touch, in each picture's pixels
+      const targets = composite.placements
+        .map((placement, index) => ({
+          index,
+          regions: mapRegionsToImage(regions, placement),
+        }))
+        .filter((target) => target.regions.length > 0);
+      Office.context.ui.messageParent(
+        JSON.stringify({ type: "apply-slide-regions", targets })
+      );
+      return;
+    }
     const message = JSON.stringify({
       type: "apply-regions",
       regions,
     });
     Office.context.ui.messageParent(message);
-  }, [regions]);
+  }, [regions, composite, style, persistSettings]);
 
   const handleCancel = useCallback(() => {
     Office.context.ui.messageParent(JSON.stringify({ type: "cancel" }));
   }, []);
 
-  if (!image) {
+  if (loadError) {
+    return (
+      <div className="dialog-editor">
+        <div className="error-screen">
+          <p>{loadError}</p>
+          <button className="btn btn-ghost" onClick={handleCancel}>
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!editorBase64) {
     return (
       <div className="dialog-editor">
         <div className="loading-screen">
           <div className="spinner" />
-          <p>Loading image...</p>
+          <p>{SLIDE_MODE ? "Composing slide..." : "Loading image..."}</p>
         </div>
       </div>
     );
@@ -155,7 +305,7 @@ export function DialogEditor() {
   return (
     <div className="dialog-editor">
       <div className="dialog-top-bar">
-        <span className="dialog-title">{image.name}</span>
+        <span className="dialog-title">{title}</span>
       </div>
 
       <div className="dialog-body">
@@ -167,15 +317,29 @@ export function DialogEditor() {
             </div>
           )}
           <div
+            ref={surfaceRef}
             className="editor-canvas-inner"
             style={{ display: imageReady ? "block" : "none" }}
           >
             <canvas ref={canvasRef} className="editor-canvas" />
-            {imageReady && (
+            {imageReady && tool === "select" && (
+              <RegionTransformer
+                imageWidth={imageSize.width}
+                imageHeight={imageSize.height}
+                regions={regions}
+                activeRegionId={activeRegionId}
+                onSelect={setActiveRegionId}
+                onEditStart={beginEdit}
+                onRegionChange={previewRegion}
+                onEditEnd={endEdit}
+                disabled={false}
+              />
+            )}
+            {imageReady && tool !== "select" && (
               <RegionSelector
-                canvasRef={canvasRef}
                 imageWidth={imageSize.width}
                 imageHeight={imageSize.height}
+                shape={tool}
                 onRegionComplete={handleRegionComplete}
                 onDrawStateChange={setDrawState}
                 mode={mode}
@@ -236,16 +400,72 @@ export function DialogEditor() {
 
           <BlurControls
             mode={mode}
+            tool={tool}
             blockSize={blockSize}
+            hardened={hardened}
+            shuffleBlocks={shuffleBlocks}
             fillColor={fillColor}
+            blurRadius={blurRadius}
             regionCount={regions.length}
             onModeChange={setMode}
+            onToolChange={handleToolChange}
             onBlockSizeChange={setBlockSize}
+            onHardenedChange={setHardened}
+            onShuffleBlocksChange={setShuffleBlocks}
             onFillColorChange={setFillColor}
+            onBlurRadiusChange={setBlurRadius}
             onClearRegions={clearRegions}
             onApplyFullImage={handleApplyFullImage}
+            presets={settings.presets}
+            onApplyPreset={handleApplyPreset}
+            onPresetsChange={handlePresetsChange}
           />
 
+          <RegionList
+            regions={regions}
+            activeRegionId={activeRegionId}
+            onSelect={handleListSelect}
+            onRegionUpdate={updateRegion}
+            onEditStart={beginEdit}
+            onRegionPreview={previewRegion}
+            onEditEnd={endEdit}
+            onRemove={handleRemoveRegion}
+            onReorder={reorderRegion}
+          />
+
+          {!SLIDE_MODE && (
+            <div className="control-group">
+              <label className="control-label">Save as Template</label>
+              <div className="template-save">
+                <input
+                  type="text"
+                  className="template-name-input"
+                  value={templateName}
+                  placeholder="Template name"
+                  onChange={(e) => {
+                    setTemplateName(e.target.value);
+                    setSavedTemplate(null);
+                  }}
+                />
+                <button
+                  className="btn btn-ghost btn-sm"
+                  onClick={handleSaveTemplate}
+                  disabled={!templateName.trim() || regions.length === 0}
+                >
+                  Save
+                </button>
+              </div>
+              {savedTemplate && (
+                <span className="template-hint">
+                  Saved &ldquo;{savedTemplate}&rdquo; — apply it to other images from
+                  the taskpane.
+                </span>
+              )}
+            </div>
+          )}
+
+          <ReplacementWarnings warnings={warnings} />
+
           <div className="dialog-sidebar-actions">
             <button
               className="btn btn-primary btn-lg"
@@ -260,7 +480,7 @@ export function DialogEditor() {
           </div>
 
           <p className="editor-hint">
-            Draw rectangles on the image.
+            Draw regions on the image, or use Select to move and resize them.
             <kbd>Cmd</kbd>+<kbd>Z</kbd> undo,
             <kbd>Cmd</kbd>+<kbd>Shift</kbd>+<kbd>Z</kbd> redo.
             <kbd>Cmd</kbd>+scroll to zoom.
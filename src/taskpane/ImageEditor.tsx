@@ -1,12 +1,23 @@
-import { useState, useCallback, useEffect, useRef } from "react";
-import type { ShapeImageInfo } from "../types/office";
-import type { BlurMode } from "../types/editor";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type { ReplacementWarning, ShapeImageInfo } from "../types/office";
+import type {
+  BlurMode,
+  EditorTool,
+  RegionGeometry,
+  RegionStyle,
+} from "../types/editor";
 import { useRegions } from "../hooks/useRegions";
+import { useSettings } from "../hooks/useSettings";
 import { useCanvasRenderer } from "../hooks/useCanvasRenderer";
+import type { RedactionPreset } from "../core/settings";
 import { processImage } from "../core/image-processor";
-import { replaceImageShape } from "../core/office-api";
+import { RedactionCancelledError } from "../core/redaction";
+import { getReplacementWarnings, replaceImageShape } from "../core/office-api";
 import { BlurControls } from "./BlurControls";
 import { RegionSelector } from "./RegionSelector";
+import { RegionTransformer } from "./RegionTransformer";
+import { ReplacementWarnings } from "./ReplacementWarnings";
+import { isTypingTarget } from "../utils/keyboard";
 
 interface ImageEditorProps {
   image: ShapeImageInfo;
@@ -15,23 +26,36 @@ interface ImageEditorProps {
 }
 
 export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
-  const [mode, setMode] = useState<BlurMode>("pixelate");
-  const [blockSize, setBlockSize] = useState(10);
-  const [fillColor, setFillColor] = useState("#000000");
+  const { settings, updateSettings } = useSettings();
+  const [mode, setMode] = useState<BlurMode>(settings.defaultStyle.mode);
+  const [tool, setTool] = useState<EditorTool>("rect");
+  const [activeRegionId, setActiveRegionId] = useState<string | null>(null);
+  const [blockSize, setBlockSize] = useState(settings.defaultStyle.blockSize);
+  const [hardened, setHardened] = useState(settings.defaultStyle.hardened);
+  const [shuffleBlocks, setShuffleBlocks] = useState(settings.defaultStyle.shuffleBlocks);
+  const [fillColor, setFillColor] = useState(settings.defaultStyle.fillColor);
+  const [blurRadius, setBlurRadius] = useState(settings.defaultStyle.blurRadius);
+  const style = useMemo<RegionStyle>(
+    () => ({ mode, blockSize, hardened, shuffleBlocks, fillColor, blurRadius }),
+    [mode, blockSize, hardened, shuffleBlocks, fillColor, blurRadius]
+  );
   const [applying, setApplying] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Replacing the shape can't be interrupted, so Cancel only works before it
+  const [replacing, setReplacing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<ReplacementWarning[]>([]);
 
-  const [drawState, setDrawState] = useState<{
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  } | null>(null);
+  const [drawState, setDrawState] = useState<RegionGeometry | null>(null);
 
   const {
     regions,
     addRegion,
     removeRegion,
+    beginEdit,
+    previewRegion,
+    endEdit,
     clearRegions,
     undo,
     redo,
@@ -39,6 +63,7 @@ export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
 
   const {
     canvasRef,
+    surfaceRef,
     containerRef,
     imageSize,
     zoom,
@@ -51,13 +76,27 @@ export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
     image.base64,
     regions,
     drawState,
-    mode,
-    blockSize,
-    fillColor
+    style,
+    activeRegionId
   );
 
   const imageReady = imageSize !== null;
 
+  // Check what the replacement will lose before anything is applied
+  useEffect(() => {
+    let cancelled = false;
+    getReplacementWarnings(image)
+      .then((found) => {
+        if (!cancelled) setWarnings(found);
+      })
+      .catch(() => {
+        // Not available on this host; nothing to report
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
   // Re-render when regions change
   useEffect(() => {
     render();
@@ -66,6 +105,8 @@ export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
   // Handle keyboard shortcuts
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
+      // Leave keys typed into a field (e.g. a preset name) to the field
+      if (isTypingTarget(e.target)) return;
       if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === "z") {
         e.preventDefault();
         redo();
@@ -73,10 +114,16 @@ export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
         e.preventDefault();
         undo();
       } else if (e.key === "Escape") {
-        onBack();
+        if (activeRegionId) setActiveRegionId(null);
+        else onBack();
       } else if (e.key === "Delete" || e.key === "Backspace") {
-        if (regions.length > 0) {
-          removeRegion(regions[regions.length - 1].id);
+        // Delete the selected region, or the most recent one if none is selected
+        const target =
+          regions.find((r) => r.id === activeRegionId) ??
+          regions[regions.length - 1];
+        if (target) {
+          removeRegion(target.id);
+          setActiveRegionId(null);
         }
       } else if ((e.metaKey || e.ctrlKey) && e.key === "=") {
         e.preventDefault();
@@ -91,7 +138,7 @@ export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
     };
     window.addEventListener("keydown", handler);
     return () => window.removeEventListener("keydown", handler);
-  }, [onBack, regions, removeRegion, undo, redo, zoomIn, zoomOut, zoomReset]);
+  }, [onBack, regions, activeRegionId, removeRegion, undo, redo, zoomIn, zoomOut, zoomReset]);
 
   // Scroll wheel / trackpad pinch zoom on the canvas container
   const zoomRef = useRef(zoom);
@@ -111,44 +158,72 @@ export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
     return () => container.removeEventListener("wheel", handler);
   }, [imageReady, containerRef, zoomAt]);
 
+  const handleToolChange = useCallback((next: EditorTool) => {
+    setTool(next);
+    if (next !== "select") setActiveRegionId(null);
+  }, []);
+
   const handleRegionComplete = useCallback(
-    (x: number, y: number, width: number, height: number) => {
-      addRegion(x, y, width, height, mode, blockSize, fillColor);
+    (geometry: RegionGeometry) => {
+      addRegion(geometry, style);
     },
-    [addRegion, mode, blockSize, fillColor]
+    [addRegion, style]
+  );
+
+  const handleApplyPreset = useCallback((preset: RegionStyle) => {
+    setMode(preset.mode);
+    setBlockSize(preset.blockSize);
+    setHardened(preset.hardened);
+    setShuffleBlocks(preset.shuffleBlocks);
+    setFillColor(preset.fillColor);
+    setBlurRadius(preset.blurRadius);
+  }, []);
+
+  const handlePresetsChange = useCallback(
+    (presets: RedactionPreset[]) => updateSettings({ presets }),
+    [updateSettings]
   );
 
   const handleApplyFullImage = useCallback(() => {
     if (!imageSize) return;
     addRegion(
-      0,
-      0,
-      imageSize.width,
-      imageSize.height,
-      mode,
-      blockSize,
-      fillColor
+      { shape: "rect", x: 0, y: 0, width: imageSize.width, height: imageSize.height },
+      style
     );
-  }, [addRegion, mode, blockSize, fillColor, imageSize]);
+  }, [addRegion, style, imageSize]);
 
   const handleApply = useCallback(async () => {
     if (regions.length === 0) return;
+    // The next editor opens with the style used here
+    updateSettings({ defaultStyle: style });
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setApplying(true);
     setError(null);
 
     try {
-      const processedBase64 = await processImage(image.base64, regions);
-      await replaceImageShape(image.id, processedBase64);
+      const processedBase64 = await processImage(image.base64, regions, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(`${done}/${total}`),
+      });
+      setReplacing(true);
+      await replaceImageShape(image, processedBase64);
       onApplied();
     } catch (err) {
-      const message =
-        err instanceof Error ? err.message : "Failed to apply changes";
-      setError(message);
+      // A cancelled run leaves the slide untouched — nothing to report
+      if (!(err instanceof RedactionCancelledError)) {
+        const message =
+          err instanceof Error ? err.message : "Failed to apply changes";
+        setError(message);
+      }
     } finally {
+      abortRef.current = null;
       setApplying(false);
+      setReplacing(false);
+      setProgress(null);
     }
-  }, [regions, image, onApplied]);
+  }, [regions, image, onApplied, style, updateSettings]);
 
   return (
     <div className="image-editor">
@@ -190,15 +265,29 @@ export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
           </div>
         )}
         <div
+          ref={surfaceRef}
           className="editor-canvas-inner"
           style={{ display: imageReady ? "block" : "none" }}
         >
           <canvas ref={canvasRef} className="editor-canvas" />
-          {imageReady && (
+          {imageReady && tool === "select" && (
+            <RegionTransformer
+              imageWidth={imageSize.width}
+              imageHeight={imageSize.height}
+              regions={regions}
+              activeRegionId={activeRegionId}
+              onSelect={setActiveRegionId}
+              onEditStart={beginEdit}
+              onRegionChange={previewRegion}
+              onEditEnd={endEdit}
+              disabled={applying}
+            />
+          )}
+          {imageReady && tool !== "select" && (
             <RegionSelector
-              canvasRef={canvasRef}
               imageWidth={imageSize.width}
               imageHeight={imageSize.height}
+              shape={tool}
               onRegionComplete={handleRegionComplete}
               onDrawStateChange={setDrawState}
               mode={mode}
@@ -210,16 +299,29 @@ export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
 
       <BlurControls
         mode={mode}
+        tool={tool}
         blockSize={blockSize}
+        hardened={hardened}
+        shuffleBlocks={shuffleBlocks}
         fillColor={fillColor}
+        blurRadius={blurRadius}
         regionCount={regions.length}
         onModeChange={setMode}
+        onToolChange={handleToolChange}
         onBlockSizeChange={setBlockSize}
+        onHardenedChange={setHardened}
+        onShuffleBlocksChange={setShuffleBlocks}
         onFillColorChange={setFillColor}
+        onBlurRadiusChange={setBlurRadius}
         onClearRegions={clearRegions}
         onApplyFullImage={handleApplyFullImage}
+        presets={settings.presets}
+        onApplyPreset={handleApplyPreset}
+        onPresetsChange={handlePresetsChange}
       />
 
+      <ReplacementWarnings warnings={warnings} />
+
       {error && <div className="error-message">{error}</div>}
 
       <div className="editor-footer">
@@ -228,14 +330,24 @@ export function ImageEditor({ image, onBack, onApplied }: ImageEditorProps) {
           onClick={handleApply}
           disabled={applying || regions.length === 0}
         >
-          {applying
-            ? "Applying..."
+          {replacing
+            ? "Updating slide..."
+            : applying
+            ? `Applying${progress ? ` ${progress}` : ""}...`
             : `Apply ${regions.length} Region${regions.length !== 1 ? "s" : ""} to Slide`}
         </button>
+        {applying && !replacing && (
+          <button
+            className="btn btn-ghost"
+            onClick={() => abortRef.current?.abort()}
+          >
+            Cancel
+          </button>
+        )}
       </div>
 
       <p className="editor-hint">
-        Draw rectangles to mark areas for redaction.
+        Draw shapes to mark areas for redaction.
         <kbd>Cmd</kbd>+<kbd>+</kbd>/<kbd>-</kbd> or <kbd>Cmd</kbd>+scroll to
         zoom. <kbd>Delete</kbd> to undo last region.
       </p>
@@ -1,26 +1,148 @@
-import type { ShapeImageInfo } from "../types/office";
+import { useState } from "react";
+import type { ShapeImageInfo, ScanScope } from "../types/office";
 import { base64ToDataUrl } from "../utils/image-loader";
 
 interface ImageListProps {
   images: ShapeImageInfo[];
   loading: boolean;
   error: string | null;
+  scope: ScanScope;
+  onScopeChange: (scope: ScanScope) => void;
+  /** Also list pictures on the slides' layouts and masters */
+  includeLayouts: boolean;
+  onIncludeLayoutsChange: (include: boolean) => void;
   onSelectImage: (image: ShapeImageInfo) => void;
+  /** Redact across all of a slide's own pictures in one editor */
+  onSelectSlide: (images: ShapeImageInfo[]) => void;
+  /** Apply a saved region template to the chosen images */
+  onBatchApply: (images: ShapeImageInfo[]) => void;
+  onGoToSlide: (slideId: string) => void;
   onRefresh: () => void;
 }
 
+interface SlideGroup {
+  slideId: string;
+  slideIndex: number;
+  images: ShapeImageInfo[];
+}
+
+/** Key of the slide, layout or master holding an image. */
+export function hostKey(img: ShapeImageInfo): string {
+  const { location } = img;
+  switch (location.host) {
+    case "slide":
+      return `slide:${img.slideId}`;
+    case "layout":
+      return `layout:${location.layoutId}`;
+    case "master":
+      return `master:${location.masterId}`;
+  }
+}
+
+/** Unique key for an image; shape ids are only unique per slide, layout or master. */
+export function imageKey(img: ShapeImageInfo): string {
+  return `${hostKey(img)}:${img.id}`;
+}
+
+/** Where an image lives, when it is anywhere but directly on the slide. */
+function describeLocation(img: ShapeImageInfo): string | null {
+  const { location } = img;
+  const { groups, placeholder } = location;
+  const parts: string[] = [];
+  if (location.host !== "slide") {
+    const label = location.host === "layout" ? "Layout" : "Master";
+    parts.push(location.hostName ? `${label} "${location.hostName}"` : label);
+  }
+  if (groups.length > 0) parts.push(`Group "${groups[groups.length - 1].name}"`);
+  if (placeholder) parts.push("Placeholder");
+  return parts.length > 0 ? parts.join(" › ") : null;
+}
+
+/** Group images by owning slide, in deck order. */
+function groupBySlide(images: ShapeImageInfo[]): SlideGroup[] {
+  const groups = new Map<string, SlideGroup>();
+  for (const img of images) {
+    let group = groups.get(img.slideId);
+    if (!group) {
+      group = { slideId: img.slideId, slideIndex: img.slideIndex, images: [] };
+      groups.set(img.slideId, group);
+    }
+    group.images.push(img);
+  }
+  return [...groups.values()].sort((a, b) => a.slideIndex - b.slideIndex);
+}
+
 export function ImageList({
   images,
   loading,
   error,
+  scope,
+  onScopeChange,
+  includeLayouts,
+  onIncludeLayoutsChange,
   onSelectImage,
+  onSelectSlide,
+  onBatchApply,
+  onGoToSlide,
   onRefresh,
 }: ImageListProps) {
+  // Batch mode: clicking a thumbnail picks it instead of opening the editor
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const toggleSelected = (img: ShapeImageInfo) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      const key = imageKey(img);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  const scopeToggle = (
+    <>
+      <div className="mode-toggle scope-toggle">
+        <button
+          className={`mode-btn ${scope === "selected" ? "active" : ""}`}
+          onClick={() => onScopeChange("selected")}
+          disabled={loading}
+        >
+          Current Slide
+        </button>
+        <button
+          className={`mode-btn ${scope === "deck" ? "active" : ""}`}
+          onClick={() => onScopeChange("deck")}
+          disabled={loading}
+        >
+          All Slides
+        </button>
+      </div>
+      <label className="checkbox-label scope-layouts">
+        <input
+          type="checkbox"
+          checked={includeLayouts}
+          onChange={(e) => onIncludeLayoutsChange(e.target.checked)}
+          disabled={loading}
+        />
+        Include layouts &amp; masters
+      </label>
+    </>
+  );
+
   if (loading) {
     return (
       <div className="image-list-status">
         <div className="spinner" />
-        <p>Loading images from slide...</p>
+        <p>
+          {scope === "deck"
+            ? "Scanning all slides for images..."
+            : "Loading images from slide..."}
+        </p>
       </div>
     );
   }
@@ -38,44 +160,120 @@ export function ImageList({
 
   if (images.length === 0) {
     return (
-      <div className="image-list-status">
-        <p className="empty-message">
-          No images found on the current slide.
-        </p>
-        <p className="empty-hint">
-          Select a slide with images and click refresh.
-        </p>
-        <button className="btn btn-primary" onClick={onRefresh}>
-          Refresh
-        </button>
+      <div className="image-list">
+        {scopeToggle}
+        <div className="image-list-status">
+          <p className="empty-message">
+            {scope === "deck"
+              ? "No images found in this presentation."
+              : "No images found on the current slide."}
+          </p>
+          <p className="empty-hint">
+            {scope === "deck"
+              ? "Add images to your slides and click refresh."
+              : "Select a slide with images and click refresh."}
+          </p>
+          <button className="btn btn-primary" onClick={onRefresh}>
+            Refresh
+          </button>
+        </div>
       </div>
     );
   }
 
+  const groups = groupBySlide(images);
+
   return (
     <div className="image-list">
+      {scopeToggle}
       <div className="image-list-header">
-        <span>{images.length} image{images.length !== 1 ? "s" : ""} found</span>
-        <button className="btn btn-ghost btn-sm" onClick={onRefresh}>
-          Refresh
-        </button>
-      </div>
-      <div className="image-grid">
-        {images.map((img) => (
+        <span>
+          {images.length} image{images.length !== 1 ? "s" : ""} found
+          {scope === "deck" &&
+            ` on ${groups.length} slide${groups.length !== 1 ? "s" : ""}`}
+        </span>
+        <div className="slide-group-actions">
           <button
-            key={img.id}
-            className="image-thumbnail-btn"
-            onClick={() => onSelectImage(img)}
+            className="btn btn-ghost btn-sm"
+            onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
           >
-            <img
-              src={base64ToDataUrl(img.base64)}
-              alt={img.name}
-              className="image-thumbnail"
-            />
-            <span className="image-name">{img.name}</span>
+            {selecting ? "Cancel" : "Batch"}
           </button>
-        ))}
+          <button className="btn btn-ghost btn-sm" onClick={onRefresh}>
+            Refresh
+          </button>
+        </div>
       </div>
+      {selecting && (
+        <div className="batch-bar">
+          <span>
+            {selected.size > 0
+              ? `${selected.size} selected`
+              : "Click images to apply a template to"}
+          </span>
+          <button
+            className="btn btn-primary btn-sm"
+            onClick={() => onBatchApply(images.filter((img) => selected.has(imageKey(img))))}
+            disabled={selected.size === 0}
+          >
+            Apply Template&hellip;
+          </button>
+        </div>
+      )}
+      {groups.map((group) => {
+        // Layout and master pictures are shared with other slides, so they
+        // can't be redacted as part of this one
+        const slideImages = group.images.filter((img) => img.location.host === "slide");
+        return (
+          <div key={group.slideId} className="slide-group">
+            {(scope === "deck" || slideImages.length > 1) && (
+              <div className="slide-group-header">
+                <span>Slide {group.slideIndex + 1}</span>
+                <div className="slide-group-actions">
+                  {slideImages.length > 1 && (
+                    <button
+                      className="btn btn-ghost btn-sm"
+                      onClick={() => onSelectSlide(slideImages)}
+                    >
+                      Redact across {slideImages.length} images
+                    </button>
+                  )}
+                  {scope === "deck" && (
+                    <button
+                      className="btn btn-ghost btn-sm"
+                      onClick={() => onGoToSlide(group.slideId)}
+                    >
+                      Go to slide
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+            <div className="image-grid">
+              {group.images.map((img) => {
+                const location = describeLocation(img);
+                return (
+                  <button
+                    key={imageKey(img)}
+                    className={`image-thumbnail-btn ${
+                      selected.has(imageKey(img)) ? "selected" : ""
+                    }`}
+                    onClick={() => (selecting ? toggleSelected(img) : onSelectImage(img))}
+                  >
+                    <img
+                      src={base64ToDataUrl(img.base64)}
+                      alt={img.name}
+                      className="image-thumbnail"
+                    />
+                    <span className="image-name">{img.name}</span>
+                    {location && <span className="image-location">{location}</span>}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
     </div>
   );
 }
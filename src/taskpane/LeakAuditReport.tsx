@@ -0,0 +1,62 @@
+import { useCallback } from "react";
+import type { AuditReport, LeakSeverity } from "../core/leak-audit";
+import { downloadBlob } from "../utils/file-helpers";
+
+const SEVERITY_ORDER: Record<LeakSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+interface LeakAuditReportProps {
+  report: AuditReport;
+  /** Base name for the downloaded JSON report */
+  fileName: string;
+}
+
+export function LeakAuditReport({ report, fileName }: LeakAuditReportProps) {
+  const findings = [...report.findings].sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      (a.slide ?? 0) - (b.slide ?? 0)
+  );
+
+  const handleDownload = useCallback(() => {
+    const json = JSON.stringify(report, null, 2);
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      `${fileName}_audit.json`
+    );
+  }, [report, fileName]);
+
+  return (
+    <div className="export-result audit-report">
+      <div className="result-item">
+        <span className="result-label">Leak audit:</span>
+        <span className="result-value">
+          {findings.length === 0
+            ? "No issues found"
+            : `${findings.length} finding${findings.length !== 1 ? "s" : ""}`}
+        </span>
+      </div>
+
+      {findings.length > 0 && (
+        <ul className="audit-findings">
+          {findings.map((f, i) => (
+            <li key={i} className="audit-finding">
+              <span className={`audit-severity audit-severity-${f.severity}`}>
+                {f.severity}
+              </span>
+              <span className="audit-message">
+                {f.slide !== null && (
+                  <span className="audit-slide">Slide {f.slide}: </span>
+                )}
+                {f.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button className="btn btn-ghost btn-sm" onClick={handleDownload}>
+        Download report (JSON)
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useRef, useState } from "react";
+import type { RegionStyle } from "../types/editor";
+import {
+  createPreset,
+  mergePresets,
+  parsePresets,
+  serializePresets,
+  type RedactionPreset,
+} from "../core/settings";
+import { downloadBlob } from "../utils/file-helpers";
+
+interface PresetControlsProps {
+  /** The style currently set in the controls, saved by "Save" */
+  style: RegionStyle;
+  presets: RedactionPreset[];
+  onApplyPreset: (style: RegionStyle) => void;
+  onPresetsChange: (presets: RedactionPreset[]) => void;
+}
+
+export function PresetControls({
+  style,
+  presets,
+  onApplyPreset,
+  onPresetsChange,
+}: PresetControlsProps) {
+  const [selectedId, setSelectedId] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const preset = presets.find((p) => p.id === id);
+    if (preset) onApplyPreset(preset.style);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const preset = createPreset(trimmed, style);
+    onPresetsChange(mergePresets(presets, [preset]));
+    setSelectedId(preset.id);
+    setName("");
+  };
+
+  const handleDelete = () => {
+    onPresetsChange(presets.filter((p) => p.id !== selectedId));
+    setSelectedId("");
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePresets(presets)], { type: "application/json" });
+    downloadBlob(blob, "slide-redact-presets.json");
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      onPresetsChange(mergePresets(presets, parsePresets(await file.text())));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import presets");
+    }
+  };
+
+  return (
+    <div className="control-group">
+      <label className="control-label">Preset</label>
+      <div className="template-save">
+        <select
+          className="region-mode-select"
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+        >
+          <option value="">Choose a preset&hellip;</option>
+          {presets.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        {selectedId && (
+          <button className="btn btn-ghost btn-sm region-delete" onClick={handleDelete}>
+            Delete
+          </button>
+        )}
+      </div>
+      <div className="template-save">
+        <input
+          type="text"
+          className="template-name-input"
+          value={name}
+          placeholder="Save current settings as…"
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button
+          className="btn btn-ghost btn-sm"
+          onClick={handleSave}
+          disabled={!name.trim()}
+        >
+          Save
+        </button>
+      </div>
+      <div className="region-item-actions">
+        <button className="btn btn-ghost btn-sm" onClick={() => fileInputRef.current?.click()}>
+          Import&hellip;
+        </button>
+        <button
+          className="btn btn-ghost btn-sm"
+          onClick={handleExport}
+          disabled={presets.length === 0}
+        >
+          Export
+        </button>
+      </div>
+      {error && <span className="preset-error">{error}</span>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: "none" }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { BlurMode, BlurRegion } from "../types/editor";
+
+const MODE_LABELS: Record<BlurMode, string> = {
+  pixelate: "Pixelate",
+  blur: "Blur",
+  solid: "Solid Fill",
+};
+
+interface RegionListProps {
+  regions: BlurRegion[];
+  activeRegionId: string | null;
+  onSelect: (id: string | null) => void;
+  /** Undoable single-step change (e.g. picking a mode or color) */
+  onRegionUpdate: (id: string, changes: Partial<BlurRegion>) => void;
+  /** Slider drags: start, live-update, then finish as one undo step */
+  onEditStart: () => void;
+  onRegionPreview: (id: string, changes: Partial<BlurRegion>) => void;
+  onEditEnd: () => void;
+  onRemove: (id: string) => void;
+  onReorder: (id: string, toIndex: number) => void;
+}
+
+export function RegionList({
+  regions,
+  activeRegionId,
+  onSelect,
+  onRegionUpdate,
+  onEditStart,
+  onRegionPreview,
+  onEditEnd,
+  onRemove,
+  onReorder,
+}: RegionListProps) {
+  // True while a slider is being dragged with the pointer
+  const draggingRef = useRef(false);
+  const onEditEndRef = useRef(onEditEnd);
+  onEditEndRef.current = onEditEnd;
+
+  // Finish the drag as one undo step. The pointer may be released anywhere,
+  // not just over the slider, so this also runs on window pointerup, on
+  // losing pointer capture or focus, and when the list unmounts mid-drag
+  const endDrag = useCallback(() => {
+    if (!draggingRef.current) return;
+    draggingRef.current = false;
+    window.removeEventListener("pointerup", endDrag);
+    window.removeEventListener("pointercancel", endDrag);
+    onEditEndRef.current();
+  }, []);
+
+  useEffect(() => endDrag, [endDrag]);
+
+  const sliderHandlers = useCallback(
+    (id: string, key: "blockSize" | "blurRadius") => ({
+      onPointerDown: () => {
+        if (draggingRef.current) return;
+        draggingRef.current = true;
+        window.addEventListener("pointerup", endDrag);
+        window.addEventListener("pointercancel", endDrag);
+        onEditStart();
+      },
+      onLostPointerCapture: endDrag,
+      onBlur: endDrag,
+      onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+        const changes = { [key]: Number(e.target.value) };
+        if (draggingRef.current) onRegionPreview(id, changes);
+        else onRegionUpdate(id, changes);
+      },
+    }),
+    [endDrag, onEditStart, onRegionPreview, onRegionUpdate]
+  );
+
+  if (regions.length === 0) {
+    return (
+      <div className="control-group">
+        <label className="control-label">Regions</label>
+        <p className="editor-hint">No regions yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="control-group">
+      <label className="control-label">Regions ({regions.length})</label>
+      <p className="editor-hint">Later regions paint over earlier ones.</p>
+      <ul className="region-list">
+        {regions.map((region, index) => {
+          const active = region.id === activeRegionId;
+          return (
+            <li
+              key={region.id}
+              className={`region-item ${active ? "active" : ""}`}
+            >
+              <div
+                className="region-item-header"
+                onClick={() => onSelect(active ? null : region.id)}
+              >
+                <span className="region-item-index">#{index + 1}</span>
+                <span className="region-item-label">
+                  {MODE_LABELS[region.mode]}
+                </span>
+                <span className="region-item-size">
+                  {Math.round(region.width)}&times;{Math.round(region.height)}
+                </span>
+              </div>
+
+              {active && (
+                <div className="region-item-editor">
+                  <select
+                    className="region-mode-select"
+                    value={region.mode}
+                    onChange={(e) =>
+                      onRegionUpdate(region.id, {
+                        mode: e.target.value as BlurMode,
+                      })
+                    }
+                  >
+                    {(Object.keys(MODE_LABELS) as BlurMode[]).map((m) => (
+                      <option key={m} value={m}>
+                        {MODE_LABELS[m]}
+                      </option>
+                    ))}
+                  </select>
+
+                  {region.mode === "pixelate" && (
+                    <>
+                      <label className="control-label">
+                        Block Size: {region.blockSize}px
+                      </label>
+                      <input
+                        type="range"
+                        min={4}
+                        max={50}
+                        value={region.blockSize}
+                        className="block-size-slider"
+                        {...sliderHandlers(region.id, "blockSize")}
+                      />
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={region.hardened}
+                          onChange={(e) =>
+                            onRegionUpdate(region.id, {
+                              hardened: e.target.checked,
+                            })
+                          }
+                        />
+                        Harden against depixelation
+                      </label>
+                      {region.hardened && (
+                        <label className="checkbox-label">
+                          <input
+                            type="checkbox"
+                            checked={region.shuffleBlocks}
+                            onChange={(e) =>
+                              onRegionUpdate(region.id, {
+                                shuffleBlocks: e.target.checked,
+                              })
+                            }
+                          />
+                          Shuffle sub-blocks
+                        </label>
+                      )}
+                    </>
+                  )}
+
+                  {region.mode === "blur" && (
+                    <>
+                      <label className="control-label">
+                        Blur Radius: {region.blurRadius}px
+                      </label>
+                      <input
+                        type="range"
+                        min={2}
+                        max={40}
+                        value={region.blurRadius}
+                        className="block-size-slider"
+                        {...sliderHandlers(region.id, "blurRadius")}
+                      />
+                    </>
+                  )}
+
+                  {region.mode === "solid" && (
+                    <div className="color-picker-row">
+                      <input
+                        type="color"
+                        value={region.fillColor}
+                        onChange={(e) =>
+                          onRegionUpdate(region.id, {
+                            fillColor: e.target.value,
+                          })
+                        }
+                        className="color-picker"
+                      />
+                      <span className="color-value">{region.fillColor}</span>
+                    </div>
+                  )}
+
+                  <div className="region-item-actions">
+                    <button
+                      className="btn btn-ghost btn-sm"
+                      onClick={() => onReorder(region.id, index - 1)}
+                      disabled={index === 0}
+                      title="Paint earlier (move up)"
+                    >
+                      &uarr;
+                    </button>
+                    <button
+                      className="btn btn-ghost btn-sm"
+                      onClick={() => onReorder(region.id, index + 1)}
+                      disabled={index === regions.length - 1}
+                      title="Paint later (move down)"
+                    >
+                      &darr;
+                    </button>
+                    <button
+                      className="btn btn-ghost btn-sm region-delete"
+                      onClick={() => onRemove(region.id)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,94 +1,215 @@
-import { useCallback, useRef, useState } from "react";
-import type { BlurMode } from "../types/editor";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  BlurMode,
+  Point,
+  RegionGeometry,
+  RegionShape,
+} from "../types/editor";
+import { boundsOfPoints } from "../core/region-geometry";
+import { clientToImage, screenToImageDistance } from "../utils/canvas-coords";
+import { isTypingTarget } from "../utils/keyboard";
+
+/** Screen-pixel distance within which a polygon click snaps to a vertex. */
+const SNAP_DISTANCE = 8;
+
+/** Minimum screen-pixel spacing between recorded lasso points. */
+const LASSO_SPACING = 3;
 
 interface RegionSelectorProps {
-  canvasRef: React.RefObject<HTMLCanvasElement | null>;
   imageWidth: number;
   imageHeight: number;
-  onRegionComplete: (
-    x: number,
-    y: number,
-    width: number,
-    height: number
-  ) => void;
-  onDrawStateChange: (
-    state: { x: number; y: number; width: number; height: number } | null
-  ) => void;
+  shape: RegionShape;
+  onRegionComplete: (geometry: RegionGeometry) => void;
+  onDrawStateChange: (state: RegionGeometry | null) => void;
   mode: BlurMode;
   disabled?: boolean;
 }
 
 export function RegionSelector({
-  canvasRef,
   imageWidth,
   imageHeight,
+  shape,
   onRegionComplete,
   onDrawStateChange,
   disabled,
 }: RegionSelectorProps) {
+  // The overlay covers the whole zoomed image, so it doubles as the coordinate surface
+  const overlayRef = useRef<HTMLDivElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const startRef = useRef({ x: 0, y: 0 });
+  // Vertices of the in-progress polygon or lasso
+  const pointsRef = useRef<Point[]>([]);
 
   const getImageCoords = useCallback(
     (e: React.MouseEvent) => {
-      const canvas = canvasRef.current;
-      if (!canvas) return { x: 0, y: 0 };
-
-      // getBoundingClientRect accounts for scroll and zoom automatically
-      const rect = canvas.getBoundingClientRect();
-      const canvasX = e.clientX - rect.left;
-      const canvasY = e.clientY - rect.top;
-
-      // rect.width/height = actual displayed size (may differ from canvas.width if CSS scaled)
-      // canvas.width/height = internal pixel buffer
-      // We use rect dimensions to correctly map from screen to canvas pixels
-      const scaleToCanvas_X = canvas.width / rect.width;
-      const scaleToCanvas_Y = canvas.height / rect.height;
-
-      const pixelX = canvasX * scaleToCanvas_X;
-      const pixelY = canvasY * scaleToCanvas_Y;
-
-      // Then canvas pixels to image coordinates
-      const scaleX = imageWidth / canvas.width;
-      const scaleY = imageHeight / canvas.height;
-
-      return {
-        x: pixelX * scaleX,
-        y: pixelY * scaleY,
-      };
+      const surface = overlayRef.current;
+      if (!surface) return { x: 0, y: 0 };
+      return clientToImage(surface, e.clientX, e.clientY, imageWidth, imageHeight);
     },
-    [canvasRef, imageWidth, imageHeight]
+    [imageWidth, imageHeight]
+  );
+
+  /** Convert a screen-pixel distance into image pixels. */
+  const toImageDistance = useCallback(
+    (distance: number) => {
+      const surface = overlayRef.current;
+      if (!surface) return distance;
+      return screenToImageDistance(surface, distance, imageWidth);
+    },
+    [imageWidth]
+  );
+
+  const pointGeometry = useCallback(
+    (points: Point[]): RegionGeometry => ({
+      shape: shape === "lasso" ? "lasso" : "polygon",
+      points,
+      ...boundsOfPoints(points),
+    }),
+    [shape]
   );
 
+  const resetDrawing = useCallback(() => {
+    setIsDrawing(false);
+    pointsRef.current = [];
+    onDrawStateChange(null);
+  }, [onDrawStateChange]);
+
+  const finishPointShape = useCallback(() => {
+    const points = pointsRef.current;
+    if (points.length >= 3) {
+      onRegionComplete(pointGeometry(points));
+    }
+    resetDrawing();
+  }, [onRegionComplete, pointGeometry, resetDrawing]);
+
+  // Switching tools abandons any half-drawn shape
+  useEffect(() => {
+    resetDrawing();
+  }, [shape, resetDrawing]);
+
+  // Enter closes the polygon, Escape abandons it. Captured at the window so
+  // the editor's own shortcuts (Escape to go back, Delete) don't also fire.
+  useEffect(() => {
+    if (shape !== "polygon" || !isDrawing) return;
+    const handler = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (e.key === "Enter") {
+        e.preventDefault();
+        e.stopPropagation();
+        finishPointShape();
+      } else if (e.key === "Escape") {
+        e.preventDefault();
+        e.stopPropagation();
+        resetDrawing();
+      } else if (e.key === "Backspace" || e.key === "Delete") {
+        // Remove the last placed vertex instead of the last region
+        e.preventDefault();
+        e.stopPropagation();
+        pointsRef.current = pointsRef.current.slice(0, -1);
+        if (pointsRef.current.length === 0) {
+          resetDrawing();
+        } else {
+          onDrawStateChange(pointGeometry(pointsRef.current));
+        }
+      }
+    };
+    window.addEventListener("keydown", handler, true);
+    return () => window.removeEventListener("keydown", handler, true);
+  }, [shape, isDrawing, finishPointShape, resetDrawing, onDrawStateChange, pointGeometry]);
+
   const handleMouseDown = useCallback(
     (e: React.MouseEvent) => {
       if (disabled) return;
       const coords = getImageCoords(e);
+
+      if (shape === "polygon") {
+        const points = pointsRef.current;
+        const snap = toImageDistance(SNAP_DISTANCE);
+        const near = (p: Point) =>
+          Math.hypot(p.x - coords.x, p.y - coords.y) <= snap;
+
+        // Clicking the first vertex, or clicking the last one again
+        // (i.e. a double-click), closes the polygon
+        if (
+          points.length >= 3 &&
+          (near(points[0]) || near(points[points.length - 1]))
+        ) {
+          finishPointShape();
+          return;
+        }
+
+        pointsRef.current = [...points, coords];
+        setIsDrawing(true);
+        onDrawStateChange(pointGeometry(pointsRef.current));
+        return;
+      }
+
+      if (shape === "lasso") {
+        pointsRef.current = [coords];
+        setIsDrawing(true);
+        onDrawStateChange(pointGeometry(pointsRef.current));
+        return;
+      }
+
       startRef.current = coords;
       setIsDrawing(true);
-      onDrawStateChange({ x: coords.x, y: coords.y, width: 0, height: 0 });
+      onDrawStateChange({ shape, x: coords.x, y: coords.y, width: 0, height: 0 });
     },
-    [disabled, getImageCoords, onDrawStateChange]
+    [
+      disabled,
+      shape,
+      getImageCoords,
+      toImageDistance,
+      finishPointShape,
+      onDrawStateChange,
+      pointGeometry,
+    ]
   );
 
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
       if (!isDrawing) return;
       const coords = getImageCoords(e);
+
+      if (shape === "polygon") {
+        // Show the edge that the next click would add
+        onDrawStateChange(pointGeometry([...pointsRef.current, coords]));
+        return;
+      }
+
+      if (shape === "lasso") {
+        const points = pointsRef.current;
+        const last = points[points.length - 1];
+        const spacing = toImageDistance(LASSO_SPACING);
+        if (Math.hypot(last.x - coords.x, last.y - coords.y) >= spacing) {
+          pointsRef.current = [...points, coords];
+          onDrawStateChange(pointGeometry(pointsRef.current));
+        }
+        return;
+      }
+
       const start = startRef.current;
       onDrawStateChange({
+        shape,
         x: start.x,
         y: start.y,
         width: coords.x - start.x,
         height: coords.y - start.y,
       });
     },
-    [isDrawing, getImageCoords, onDrawStateChange]
+    [isDrawing, shape, getImageCoords, toImageDistance, onDrawStateChange, pointGeometry]
   );
 
   const handleMouseUp = useCallback(
     (e: React.MouseEvent) => {
-      if (!isDrawing) return;
+      // Polygons are built from clicks, not drags
+      if (!isDrawing || shape === "polygon") return;
+
+      if (shape === "lasso") {
+        finishPointShape();
+        return;
+      }
+
       setIsDrawing(false);
       const coords = getImageCoords(e);
       const start = startRef.current;
@@ -96,15 +217,16 @@ export function RegionSelector({
       const height = coords.y - start.y;
 
       if (Math.abs(width) > 2 && Math.abs(height) > 2) {
-        onRegionComplete(start.x, start.y, width, height);
+        onRegionComplete({ shape, x: start.x, y: start.y, width, height });
       }
       onDrawStateChange(null);
     },
-    [isDrawing, getImageCoords, onRegionComplete, onDrawStateChange]
+    [isDrawing, shape, getImageCoords, finishPointShape, onRegionComplete, onDrawStateChange]
   );
 
   return (
     <div
+      ref={overlayRef}
       className="region-selector-overlay"
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
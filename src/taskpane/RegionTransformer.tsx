@@ -0,0 +1,156 @@
+import { useCallback, useRef, useState } from "react";
+import type { BlurRegion, Point } from "../types/editor";
+import {
+  containsPoint,
+  fitGeometry,
+  handleAt,
+  handleCursor,
+  resizeBounds,
+  translateGeometry,
+  type ResizeHandle,
+} from "../core/region-geometry";
+import { clientToImage, screenToImageDistance } from "../utils/canvas-coords";
+
+/** Screen-pixel radius around a handle that still grabs it. */
+const HANDLE_TOLERANCE = 6;
+
+interface RegionTransformerProps {
+  imageWidth: number;
+  imageHeight: number;
+  regions: BlurRegion[];
+  activeRegionId: string | null;
+  onSelect: (id: string | null) => void;
+  onEditStart: () => void;
+  onRegionChange: (id: string, changes: Partial<BlurRegion>) => void;
+  onEditEnd: () => void;
+  disabled?: boolean;
+}
+
+interface DragState {
+  id: string;
+  /** null when moving the whole region */
+  handle: ResizeHandle | null;
+  origin: Point;
+  /** The region as it was when the drag started */
+  initial: BlurRegion;
+}
+
+/**
+ * Overlay for the select tool: click a region to select it, drag to move it,
+ * drag a corner or edge handle to resize it.
+ */
+export function RegionTransformer({
+  imageWidth,
+  imageHeight,
+  regions,
+  activeRegionId,
+  onSelect,
+  onEditStart,
+  onRegionChange,
+  onEditEnd,
+  disabled,
+}: RegionTransformerProps) {
+  // The overlay covers the whole zoomed image, so it doubles as the coordinate surface
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [cursor, setCursor] = useState("default");
+
+  const activeRegion = regions.find((r) => r.id === activeRegionId) ?? null;
+
+  const getImageCoords = useCallback(
+    (e: React.MouseEvent) => {
+      const surface = overlayRef.current;
+      if (!surface) return { x: 0, y: 0 };
+      return clientToImage(surface, e.clientX, e.clientY, imageWidth, imageHeight);
+    },
+    [imageWidth, imageHeight]
+  );
+
+  /** What the pointer would grab at a point: a handle of the selection, or a region. */
+  const hitTest = useCallback(
+    (point: Point): { region: BlurRegion; handle: ResizeHandle | null } | null => {
+      const surface = overlayRef.current;
+      const tolerance = surface
+        ? screenToImageDistance(surface, HANDLE_TOLERANCE, imageWidth)
+        : HANDLE_TOLERANCE;
+
+      if (activeRegion) {
+        const handle = handleAt(activeRegion, point, tolerance);
+        if (handle) return { region: activeRegion, handle };
+      }
+
+      // Later regions paint over earlier ones, so test topmost first
+      for (let i = regions.length - 1; i >= 0; i--) {
+        if (containsPoint(regions[i], point)) {
+          return { region: regions[i], handle: null };
+        }
+      }
+      return null;
+    },
+    [imageWidth, activeRegion, regions]
+  );
+
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent) => {
+      if (disabled) return;
+      const point = getImageCoords(e);
+      const hit = hitTest(point);
+
+      if (!hit) {
+        onSelect(null);
+        return;
+      }
+
+      onSelect(hit.region.id);
+      onEditStart();
+      dragRef.current = {
+        id: hit.region.id,
+        handle: hit.handle,
+        origin: point,
+        initial: hit.region,
+      };
+    },
+    [disabled, getImageCoords, hitTest, onSelect, onEditStart]
+  );
+
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent) => {
+      const point = getImageCoords(e);
+      const drag = dragRef.current;
+
+      if (!drag) {
+        const hit = hitTest(point);
+        setCursor(
+          hit?.handle ? handleCursor(hit.handle) : hit ? "move" : "default"
+        );
+        return;
+      }
+
+      const dx = point.x - drag.origin.x;
+      const dy = point.y - drag.origin.y;
+      const next = drag.handle
+        ? fitGeometry(drag.initial, resizeBounds(drag.initial, drag.handle, dx, dy))
+        : translateGeometry(drag.initial, dx, dy);
+      onRegionChange(drag.id, next);
+    },
+    [getImageCoords, hitTest, onRegionChange]
+  );
+
+  const handleMouseUp = useCallback(() => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    onEditEnd();
+  }, [onEditEnd]);
+
+  return (
+    <div
+      ref={overlayRef}
+      className="region-selector-overlay"
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      onMouseLeave={handleMouseUp}
+      style={{ cursor: disabled ? "default" : cursor }}
+    />
+  );
+}
@@ -0,0 +1,21 @@
+import type { ReplacementWarning } from "../types/office";
+
+interface ReplacementWarningsProps {
+  warnings: ReplacementWarning[];
+}
+
+/** What applying the redaction will not preserve on the original shape. */
+export function ReplacementWarnings({ warnings }: ReplacementWarningsProps) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="warning-message">
+      <strong>Applying will not preserve everything:</strong>
+      <ul className="warning-list">
+        {warnings.map((w) => (
+          <li key={w.kind}>{w.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,34 @@
 import { useState, useCallback, useRef } from "react";
-import { secureExport, type ExportResult } from "../core/secure-export";
+import {
+  auditPptx,
+  inventoryEmbeddings,
+  secureExport,
+  type ExportResult,
+  type ThumbnailMode,
+} from "../core/secure-export";
+import type { AuditReport } from "../core/leak-audit";
+import {
+  EMBEDDING_ACTIONS,
+  defaultEmbeddingAction,
+  type EmbeddedObject,
+  type EmbeddingAction,
+} from "../core/embeddings";
+import type { MetadataCounts, MetadataKind } from "../core/media-sanitizer";
+import {
+  PERSONAL_INFO_CATEGORIES,
+  type PersonalInfoCategory,
+  type PersonalInfoOptions,
+} from "../core/personal-info";
+import {
+  PRESENTATION_EXTENSIONS,
+  isPresentationFileName,
+  stripPresentationExtension,
+} from "../core/presentation-format";
+import { getDocumentFileName, getFileAsync } from "../core/office-api";
+import { useSettings } from "../hooks/useSettings";
+import { LeakAuditReport } from "./LeakAuditReport";
+
+const ACCEPTED_EXTENSIONS = PRESENTATION_EXTENSIONS.map((ext) => `.${ext}`).join(",");
 
 function formatBytes(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
@@ -7,37 +36,120 @@ function formatBytes(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
+const METADATA_LABELS: Record<MetadataKind, string> = {
+  exif: "EXIF",
+  xmp: "XMP",
+  iptc: "IPTC",
+  comment: "comment",
+  text: "text",
+  other: "other",
+};
+
+const PERSONAL_INFO_LABELS: Record<PersonalInfoCategory, string> = {
+  authors: "Author and last-modified-by names",
+  timestamps: "Created, modified and printed dates",
+  appProperties: "Company, manager, template path, edit time",
+  customProperties: "Custom document properties",
+  commentAuthors: "Comment author names and accounts",
+};
+
+const EMBEDDING_ACTION_LABELS: Record<EmbeddingAction, string> = {
+  keep: "Keep",
+  "remove-workbook": "Remove workbook, keep chart values",
+  "convert-to-image": "Convert to picture",
+};
+
+function describeEmbedding(object: EmbeddedObject): string {
+  const where = object.slide !== null ? `Slide ${object.slide}` : object.owner;
+  const what = object.kind === "chart-workbook" ? "chart data" : object.label;
+  return `${where}: ${what} (${formatBytes(object.size)})`;
+}
+
+function formatMetadataCounts(counts: MetadataCounts): string {
+  const parts = (Object.keys(counts) as MetadataKind[])
+    .filter((kind) => counts[kind] > 0)
+    .map((kind) => `${counts[kind]} ${METADATA_LABELS[kind]}`);
+  return parts.length > 0 ? parts.join(", ") : "None found";
+}
+
 export function SecureExport() {
   const [exporting, setExporting] = useState(false);
   const [progress, setProgress] = useState<string | null>(null);
   const [result, setResult] = useState<ExportResult | null>(null);
+  const [audit, setAudit] = useState<{ report: AuditReport; baseName: string } | null>(
+    null
+  );
   const [error, setError] = useState<string | null>(null);
-  const [stripMeta, setStripMeta] = useState(true);
+  // Options start from the ones used for the last export
+  const { settings, updateSettings } = useSettings();
+  const defaults = settings.exportDefaults;
+  const [personalInfo, setPersonalInfo] = useState<PersonalInfoOptions>(
+    defaults.personalInfo
+  );
+  const [stripMediaMeta, setStripMediaMeta] = useState(defaults.stripMediaMetadata);
+  const [removeNotes, setRemoveNotes] = useState(defaults.removeNotes);
+  const [removeComments, setRemoveComments] = useState(defaults.removeComments);
+  const [stripMacros, setStripMacros] = useState(defaults.stripMacros);
+  const [thumbnailMode, setThumbnailMode] = useState<ThumbnailMode>(defaults.thumbnail);
+  // Embeddings found by the last inventory, audit or export, and the action chosen for each
+  const [embeddedObjects, setEmbeddedObjects] = useState<EmbeddedObject[]>([]);
+  const [embeddingActions, setEmbeddingActions] = useState<
+    Record<string, EmbeddingAction>
+  >({});
+  // The presentation those embeddings and actions belong to, so choices made
+  // for one file are never applied to another
+  const [embeddingSource, setEmbeddingSource] = useState<File | "current" | null>(
+    null
+  );
   const [dragOver, setDragOver] = useState(false);
+  // A dropped or picked file waits here until the user exports or audits it
+  const [droppedFile, setDroppedFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const processFile = useCallback(
-    async (file: File) => {
-      if (!file.name.endsWith(".pptx")) {
-        setError("Please select a .pptx file.");
-        return;
-      }
-
+  const runExport = useCallback(
+    async (
+      readSource: () => Promise<File | Uint8Array>,
+      fileName: string,
+      sourceId: File | "current"
+    ) => {
+      const actions = embeddingSource === sourceId ? embeddingActions : {};
       setExporting(true);
       setError(null);
       setResult(null);
+      setAudit(null);
+      updateSettings({
+        exportDefaults: {
+          personalInfo,
+          stripMediaMetadata: stripMediaMeta,
+          removeNotes,
+          removeComments,
+          stripMacros,
+          thumbnail: thumbnailMode,
+        },
+      });
 
       try {
-        const baseName = file.name.replace(/\.pptx$/i, "");
+        const source = await readSource();
+        const baseName = stripPresentationExtension(fileName);
         const exportResult = await secureExport(
-          file,
+          source,
           {
-            stripMetadata: stripMeta,
-            filename: `${baseName}_secured.pptx`,
+            personalInfo,
+            stripMediaMetadata: stripMediaMeta,
+            removeNotes,
+            removeComments,
+            embeddingActions: actions,
+            stripMacros,
+            thumbnail: thumbnailMode,
+            baseName: `${baseName}_secured`,
           },
           setProgress
         );
         setResult(exportResult);
+        setEmbeddedObjects(exportResult.embeddings.map((e) => e.object));
+        setEmbeddingActions(actions);
+        setEmbeddingSource(sourceId);
+        setAudit({ report: exportResult.audit, baseName: `${baseName}_secured` });
       } catch (err) {
         const message =
           err instanceof Error ? err.message : "Export failed";
@@ -47,9 +159,109 @@ export function SecureExport() {
         setProgress(null);
       }
     },
-    [stripMeta]
+    [
+      personalInfo,
+      stripMediaMeta,
+      removeNotes,
+      removeComments,
+      embeddingActions,
+      embeddingSource,
+      stripMacros,
+      thumbnailMode,
+      updateSettings,
+    ]
   );
 
+  // Audit without exporting, so findings can be reviewed before any download
+  const runAudit = useCallback(
+    async (
+      readSource: () => Promise<File | Uint8Array>,
+      fileName: string,
+      sourceId: File | "current"
+    ) => {
+      setExporting(true);
+      setError(null);
+      setResult(null);
+      setAudit(null);
+
+      try {
+        const report = await auditPptx(await readSource(), setProgress);
+        const baseName = stripPresentationExtension(fileName);
+        setAudit({ report, baseName });
+        setEmbeddedObjects(report.embeddings);
+        setEmbeddingActions({});
+        setEmbeddingSource(sourceId);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Audit failed";
+        setError(message);
+      } finally {
+        setExporting(false);
+        setProgress(null);
+      }
+    },
+    []
+  );
+
+  const processFile = useCallback(async (file: File) => {
+    if (!isPresentationFileName(file.name)) {
+      setError(`Please select a PowerPoint file (${ACCEPTED_EXTENSIONS.replace(/,/g, ", ")}).`);
+      return;
+    }
+    setError(null);
+    setResult(null);
+    setAudit(null);
+    setDroppedFile(file);
+    setEmbeddedObjects([]);
+    setEmbeddingActions({});
+    setEmbeddingSource(file);
+
+    // List the file's embeddings straight away, so an action can be chosen
+    // for each before anything is exported
+    setExporting(true);
+    try {
+      setEmbeddedObjects(await inventoryEmbeddings(file, setProgress));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to read the file";
+      setError(message);
+    } finally {
+      setExporting(false);
+      setProgress(null);
+    }
+  }, []);
+
+  const handleExportDropped = useCallback(() => {
+    if (droppedFile) runExport(async () => droppedFile, droppedFile.name, droppedFile);
+  }, [droppedFile, runExport]);
+
+  const handleAuditDropped = useCallback(() => {
+    if (droppedFile) runAudit(async () => droppedFile, droppedFile.name, droppedFile);
+  }, [droppedFile, runAudit]);
+
+  const handleClearDropped = useCallback(() => {
+    if (embeddingSource === droppedFile) {
+      setEmbeddedObjects([]);
+      setEmbeddingActions({});
+      setEmbeddingSource(null);
+    }
+    setDroppedFile(null);
+  }, [droppedFile, embeddingSource]);
+
+  // Read the open presentation straight from PowerPoint — no save/re-open needed
+  const handleExportCurrent = useCallback(() => {
+    runExport(async () => {
+      setProgress("Reading presentation from PowerPoint...");
+      return getFileAsync();
+    }, getDocumentFileName(), "current");
+  }, [runExport]);
+
+  // Check the open presentation for leaks before deciding to export
+  const handleAuditCurrent = useCallback(() => {
+    runAudit(async () => {
+      setProgress("Reading presentation from PowerPoint...");
+      return getFileAsync();
+    }, getDocumentFileName(), "current");
+  }, [runAudit]);
+
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
@@ -89,30 +301,132 @@ export function SecureExport() {
         the unblurred original in the <code>ppt/media/</code> folder.
       </p>
       <p className="section-desc">
-        This tool scans the file, removes orphaned originals that are no longer
-        referenced by any slide, and downloads a clean copy.
+        This tool walks the file's relationship graph, removes every orphaned
+        part (original images, embeddings, leftover slides and layouts) that
+        nothing in the presentation reaches any more, and downloads a clean copy.
       </p>
       <p className="section-desc">
-        <strong>Steps:</strong> Apply blur &rarr; Save (Cmd+S) &rarr; Select the
-        saved .pptx below &rarr; Use the downloaded secure copy.
+        <strong>Steps:</strong> Apply blur &rarr; Export the current
+        presentation &rarr; Use the downloaded secure copy. To clean a .pptx
+        that is not open, drop it below instead.
       </p>
 
       <div className="export-options">
+        <label className="control-label">Remove personal information</label>
+        {PERSONAL_INFO_CATEGORIES.map((category) => (
+          <label key={category} className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={personalInfo[category]}
+              onChange={(e) =>
+                setPersonalInfo((current) => ({
+                  ...current,
+                  [category]: e.target.checked,
+                }))
+              }
+              disabled={exporting}
+            />
+            {PERSONAL_INFO_LABELS[category]}
+          </label>
+        ))}
+      </div>
+
+      <div className="export-options">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={removeNotes}
+            onChange={(e) => setRemoveNotes(e.target.checked)}
+            disabled={exporting}
+          />
+          Remove speaker notes
+        </label>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={removeComments}
+            onChange={(e) => setRemoveComments(e.target.checked)}
+            disabled={exporting}
+          />
+          Remove comments
+        </label>
         <label className="checkbox-label">
           <input
             type="checkbox"
-            checked={stripMeta}
-            onChange={(e) => setStripMeta(e.target.checked)}
+            checked={stripMediaMeta}
+            onChange={(e) => setStripMediaMeta(e.target.checked)}
             disabled={exporting}
           />
-          Strip author metadata
+          Strip photo metadata (EXIF, GPS, XMP, IPTC)
+        </label>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={stripMacros}
+            onChange={(e) => setStripMacros(e.target.checked)}
+            disabled={exporting}
+          />
+          Remove macros (.pptm is saved as .pptx)
+        </label>
+        <label className="checkbox-label">
+          Preview thumbnail:
+          <select
+            value={thumbnailMode}
+            onChange={(e) => setThumbnailMode(e.target.value as ThumbnailMode)}
+            disabled={exporting}
+          >
+            <option value="remove">Remove</option>
+            <option value="placeholder">Replace with blank image</option>
+          </select>
         </label>
       </div>
 
+      {embeddedObjects.length > 0 && (
+        <div className="export-options">
+          <label className="control-label">Embedded objects</label>
+          {embeddedObjects.map((object) => (
+            <label key={`${object.owner}:${object.part}`} className="checkbox-label">
+              {describeEmbedding(object)}
+              <select
+                value={embeddingActions[object.part] ?? defaultEmbeddingAction(object.kind)}
+                onChange={(e) =>
+                  setEmbeddingActions((current) => ({
+                    ...current,
+                    [object.part]: e.target.value as EmbeddingAction,
+                  }))
+                }
+                disabled={exporting}
+              >
+                {EMBEDDING_ACTIONS[object.kind].map((action) => (
+                  <option key={action} value={action}>
+                    {EMBEDDING_ACTION_LABELS[action]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <button
+        className="btn btn-primary btn-lg"
+        onClick={handleExportCurrent}
+        disabled={exporting}
+      >
+        Export Current Presentation
+      </button>
+      <button
+        className="btn btn-outline"
+        onClick={handleAuditCurrent}
+        disabled={exporting}
+      >
+        Audit for Leaks Only
+      </button>
+
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pptx"
+        accept={ACCEPTED_EXTENSIONS}
         onChange={handleFileChange}
         style={{ display: "none" }}
       />
@@ -132,21 +446,61 @@ export function SecureExport() {
         ) : (
           <>
             <p className="drop-zone-title">
-              Drop .pptx file here or click to browse
+              {droppedFile
+                ? droppedFile.name
+                : "Or drop a .pptx, .pptm, .ppsx or .potx file here / click to browse"}
             </p>
             <p className="drop-zone-hint">
-              Save your presentation first (Cmd+S)
+              {droppedFile
+                ? "Drop or click to pick a different file"
+                : "For presentations that are not open in PowerPoint"}
             </p>
           </>
         )}
       </div>
 
+      {droppedFile && (
+        <div className="dropped-file-actions">
+          <button
+            className="btn btn-primary"
+            onClick={handleExportDropped}
+            disabled={exporting}
+          >
+            Export File
+          </button>
+          <button
+            className="btn btn-outline"
+            onClick={handleAuditDropped}
+            disabled={exporting}
+          >
+            Audit Only
+          </button>
+          <button
+            className="btn btn-ghost"
+            onClick={handleClearDropped}
+            disabled={exporting}
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
       {error && <div className="error-message">{error}</div>}
 
       {result && (
         <div className="export-result">
           <div className="result-item">
-            <span className="result-label">Orphaned files removed:</span>
+            <span className="result-label">Saved as:</span>
+            <span className="result-value">{result.filename}</span>
+          </div>
+          {result.removedMacros.length > 0 && (
+            <div className="result-item">
+              <span className="result-label">Macro parts removed:</span>
+              <span className="result-value">{result.removedMacros.length}</span>
+            </div>
+          )}
+          <div className="result-item">
+            <span className="result-label">Orphaned parts removed:</span>
             <span className="result-value">{result.orphanedCount}</span>
           </div>
           {result.orphanedFiles.length > 0 && (
@@ -158,6 +512,29 @@ export function SecureExport() {
               ))}
             </div>
           )}
+          <div className="result-item">
+            <span className="result-label">Crops applied:</span>
+            <span className="result-value">{result.croppedImages.length}</span>
+          </div>
+          {result.croppedImages.length > 0 && (
+            <div className="result-files">
+              {result.croppedImages.map((c) => (
+                <div key={c.croppedMedia} className="result-file">
+                  {c.media} ({c.originalSize.width}&times;{c.originalSize.height}
+                  &rarr; {c.croppedSize.width}&times;{c.croppedSize.height})
+                </div>
+              ))}
+            </div>
+          )}
+          {result.skippedCrops.length > 0 && (
+            <div className="result-files">
+              {result.skippedCrops.map((c, i) => (
+                <div key={`${c.part}:${c.media}:${i}`} className="result-file">
+                  Not cropped: {c.media} — {c.reason}
+                </div>
+              ))}
+            </div>
+          )}
           <div className="result-item">
             <span className="result-label">Original size:</span>
             <span className="result-value">
@@ -170,17 +547,88 @@ export function SecureExport() {
               {formatBytes(result.cleanedSize)}
             </span>
           </div>
-          {result.metadataStripped && (
+          <div className="result-item">
+            <span className="result-label">Preview thumbnail:</span>
+            <span className="result-value">
+              {result.thumbnails.length === 0
+                ? "None found"
+                : result.thumbnails.some((t) => t.action === "removed")
+                  ? "Removed"
+                  : "Replaced"}
+            </span>
+          </div>
+          {result.removedNotes.length > 0 && (
+            <div className="result-item">
+              <span className="result-label">Notes parts removed:</span>
+              <span className="result-value">{result.removedNotes.length}</span>
+            </div>
+          )}
+          {result.removedComments.length > 0 && (
+            <div className="result-item">
+              <span className="result-label">Comment parts removed:</span>
+              <span className="result-value">{result.removedComments.length}</span>
+            </div>
+          )}
+          {(result.removedNotes.length > 0 || result.removedComments.length > 0) && (
+            <div className="result-files">
+              {[...result.removedNotes, ...result.removedComments].map((f) => (
+                <div key={f} className="result-file">
+                  {f}
+                </div>
+              ))}
+            </div>
+          )}
+          {result.embeddings.length > 0 && (
+            <>
+              <div className="result-item">
+                <span className="result-label">Embedded objects:</span>
+                <span className="result-value">{result.embeddings.length}</span>
+              </div>
+              <div className="result-files">
+                {result.embeddings.map((e) => (
+                  <div key={`${e.object.owner}:${e.object.part}`} className="result-file">
+                    {describeEmbedding(e.object)} — {e.detail}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+          {result.mediaMetadata && (
             <div className="result-item">
-              <span className="result-label">Metadata:</span>
-              <span className="result-value">Stripped</span>
+              <span className="result-label">Photo metadata:</span>
+              <span className="result-value">
+                {formatMetadataCounts(result.mediaMetadata.counts)}
+              </span>
+            </div>
+          )}
+          {PERSONAL_INFO_CATEGORIES.filter(
+            (category) => result.personalInfo[category].length > 0
+          ).map((category) => (
+            <div key={category} className="result-item">
+              <span className="result-label">{PERSONAL_INFO_LABELS[category]}:</span>
+              <span className="result-value">
+                {result.personalInfo[category].length} removed
+              </span>
+            </div>
+          ))}
+          {result.validationWarnings.length > 0 && (
+            <div className="result-files">
+              {result.validationWarnings.map((w, i) => (
+                <div key={i} className="result-file">
+                  Already in original: {w.part} — {w.message}
+                </div>
+              ))}
             </div>
           )}
           <div className="result-success">
-            Secure file downloaded.
+            Secure file validated and downloaded.
           </div>
         </div>
       )}
+
+      {audit && (
+        <LeakAuditReport report={audit.report} fileName={audit.baseName} />
+      )}
     </div>
   );
 }
@@ -1,25 +1,48 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import type { ShapeImageInfo } from "../types/office";
+import type { ReplacementWarning, ShapeImageInfo, ScanScope } from "../types/office";
 import type { BlurRegion } from "../types/editor";
 import { useOfficeContext } from "../hooks/useOfficeContext";
 import { useSlideImages } from "../hooks/useSlideImages";
 import { processImage } from "../core/image-processor";
-import { replaceImageShape } from "../core/office-api";
-import { ImageList } from "./ImageList";
+import { RedactionCancelledError } from "../core/redaction";
+import {
+  getReplacementWarnings,
+  goToSlide,
+  replaceImageShape,
+} from "../core/office-api";
+import { templateRegions, type RegionTemplate } from "../core/region-template";
+import { loadSettings, saveSettings } from "../core/settings";
+import { loadImage } from "../utils/image-loader";
+import { BatchTemplate } from "./BatchTemplate";
+import { ImageList, hostKey } from "./ImageList";
 import { SecureExport } from "./SecureExport";
 
 const STORAGE_KEY = "slide-redact-dialog-image";
+const WARNINGS_KEY = "slide-redact-dialog-warnings";
+const SLIDE_KEY = "slide-redact-dialog-slide";
 
 type View = "list" | "export";
 
 export function TaskpaneApp() {
   const { isReady, isSupported, missingApis, error: officeError } = useOfficeContext();
-  const { images, loading, error: imageError, refresh } = useSlideImages();
+  const [scope, setScope] = useState<ScanScope>("selected");
+  const [includeLayouts, setIncludeLayouts] = useState(false);
+  const { images, loading, error: imageError, refresh } = useSlideImages(
+    scope,
+    includeLayouts
+  );
   const [view, setView] = useState<View>("list");
   const [applying, setApplying] = useState(false);
+  const [applyProgress, setApplyProgress] = useState<string | null>(null);
+  const applyAbortRef = useRef<AbortController | null>(null);
+  // Replacing a shape can't be interrupted, so Cancel only works between replacements
+  const [replacing, setReplacing] = useState(false);
   const [applyError, setApplyError] = useState<string | null>(null);
   const dialogRef = useRef<Office.Dialog | null>(null);
   const selectedImageRef = useRef<ShapeImageInfo | null>(null);
+  const selectedSlideImagesRef = useRef<ShapeImageInfo[]>([]);
+  // Images picked for a batch template run; shown instead of the list
+  const [batchImages, setBatchImages] = useState<ShapeImageInfo[] | null>(null);
 
   // Load images when the add-in becomes ready
   useEffect(() => {
@@ -28,9 +51,10 @@ export function TaskpaneApp() {
     }
   }, [isReady, isSupported, refresh]);
 
-  // Auto-refresh when slide selection or content changes
+  // Auto-refresh when slide selection or content changes.
+  // A deck-wide scan doesn't depend on the selection, so it only refreshes on demand.
   useEffect(() => {
-    if (!isReady || !isSupported) return;
+    if (!isReady || !isSupported || scope === "deck") return;
 
     const handler = () => {
       // Only refresh when on the image list view and not currently applying
@@ -50,7 +74,78 @@ export function TaskpaneApp() {
         { handler }
       );
     };
-  }, [isReady, isSupported, applying, refresh]);
+  }, [isReady, isSupported, scope, applying, refresh]);
+
+  // Redact each image in turn and put the results on the slide
+  const applyRedactions = useCallback(
+    async (jobs: { image: ShapeImageInfo; regions: BlurRegion[] }[]) => {
+      if (jobs.length === 0) return;
+
+      const controller = new AbortController();
+      applyAbortRef.current = controller;
+      setApplying(true);
+      setApplyError(null);
+
+      const replacedNames: string[] = [];
+      try {
+        // Replacing a shape inside a group rebuilds the group under a new id.
+        // Shape ids are only unique per slide, layout or master, so key by host.
+        const newIds: Record<string, string> = {};
+        for (const [i, job] of jobs.entries()) {
+          if (controller.signal.aborted) throw new RedactionCancelledError();
+          const prefix = jobs.length > 1 ? `Image ${i + 1} of ${jobs.length}: ` : "";
+          const hostId = `${hostKey(job.image)}:`;
+          const image: ShapeImageInfo = {
+            ...job.image,
+            location: {
+              ...job.image.location,
+              groups: job.image.location.groups.map((g) => ({
+                ...g,
+                id: newIds[hostId + g.id] ?? g.id,
+              })),
+            },
+          };
+
+          const processedBase64 = await processImage(image.base64, job.regions, {
+            signal: controller.signal,
+            onProgress: (done, total) =>
+              setApplyProgress(`${prefix}Redacting region ${done} of ${total}...`),
+          });
+          setApplyProgress(`${prefix}Updating slide...`);
+          setReplacing(true);
+          const replaced = await replaceImageShape(image, processedBase64);
+          setReplacing(false);
+          replacedNames.push(image.name);
+          for (const [oldId, newId] of Object.entries(replaced)) {
+            newIds[hostId + oldId] = newId;
+          }
+        }
+        refresh();
+      } catch (err) {
+        // A cancelled run leaves the remaining images untouched; say which
+        // ones were already replaced when there were several
+        if (!(err instanceof RedactionCancelledError)) {
+          const message =
+            err instanceof Error ? err.message : "Failed to apply changes";
+          setApplyError(message);
+        } else if (replacedNames.length > 0) {
+          setApplyError(
+            `Cancelled after replacing ${replacedNames.length} of ${jobs.length} images: ` +
+              replacedNames.join(", ")
+          );
+        }
+        // Images redacted before the failure are already on the slide, and
+        // groups put back after a failed replacement have new ids
+        refresh();
+      } finally {
+        applyAbortRef.current = null;
+        setApplying(false);
+        setReplacing(false);
+        setApplyProgress(null);
+      }
+    },
+    [refresh]
+  );
 
   const handleDialogMessage = useCallback(
     async (arg: { message: string; origin: string | undefined } | { error: number }) => {
@@ -63,42 +158,47 @@ export function TaskpaneApp() {
         return;
       }
 
+      // Presets or defaults changed in the dialog, which can only save the local copy
+      if (data.type === "save-settings") {
+        saveSettings(data.settings).catch((err) =>
+          console.error("Failed to save settings", err)
+        );
+        return;
+      }
+
       if (data.type === "apply-regions") {
         dialogRef.current?.close();
         dialogRef.current = null;
 
         const image = selectedImageRef.current;
         if (!image) return;
+        await applyRedactions([{ image, regions: data.regions }]);
+      }
 
-        const regions: BlurRegion[] = data.regions;
-        setApplying(true);
-        setApplyError(null);
+      // Regions drawn on the slide composite, already mapped into each image
+      if (data.type === "apply-slide-regions") {
+        dialogRef.current?.close();
+        dialogRef.current = null;
 
-        try {
-          const processedBase64 = await processImage(image.base64, regions);
-          await replaceImageShape(image.id, processedBase64);
-          refresh();
-        } catch (err) {
-          const message =
-            err instanceof Error ? err.message : "Failed to apply changes";
-          setApplyError(message);
-        } finally {
-          setApplying(false);
-        }
+        const images = selectedSlideImagesRef.current;
+        const targets: { index: number; regions: BlurRegion[] }[] = data.targets;
+        await applyRedactions(
+          targets
+            .filter((t) => images[t.index] && t.regions.length > 0)
+            .map((t) => ({ image: images[t.index], regions: t.regions }))
+        );
       }
     },
-    [refresh]
+    [applyRedactions]
   );
 
-  const handleSelectImage = useCallback(
-    (image: ShapeImageInfo) => {
-      selectedImageRef.current = image;
-
-      // Store image data for the dialog to read
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(image));
+  const openEditorDialog = useCallback(
+    (query: string) => {
+      // Refresh the local copy of the settings that the dialog reads
+      loadSettings();
 
       // Open dialog at 90% of screen
-      const url = `${window.location.origin}/editor.html`;
+      const url = `${window.location.origin}/editor.html${query}`;
       Office.context.ui.displayDialogAsync(
         url,
         { height: 90, width: 90, displayInIframe: false },
@@ -126,6 +226,93 @@ export function TaskpaneApp() {
     [handleDialogMessage]
   );
 
+  // Find out up front what the replacements will lose, so the editor can
+  // say so before the user applies anything. Each slide is exported once,
+  // however many of its images are checked
+  const collectWarnings = useCallback(async (images: ShapeImageInfo[]) => {
+    const warnings: ReplacementWarning[] = [];
+    const slides = new Map<string, Promise<string>>();
+    for (const image of images) {
+      try {
+        warnings.push(...(await getReplacementWarnings(image, slides)));
+      } catch {
+        // Not available on this host; nothing to report
+      }
+    }
+    return warnings;
+  }, []);
+
+  // Store data for the dialog to read. Large images can exceed the storage
+  // quota; report that instead of opening an editor with nothing to show
+  const storeDialogData = useCallback((entries: Record<string, unknown>) => {
+    try {
+      for (const [key, value] of Object.entries(entries)) {
+        localStorage.setItem(key, JSON.stringify(value));
+      }
+      return true;
+    } catch {
+      Object.keys(entries).forEach((key) => localStorage.removeItem(key));
+      setApplyError(
+        "The images are too large to open in the editor. Try a slide with fewer or smaller pictures."
+      );
+      return false;
+    }
+  }, []);
+
+  const handleSelectImage = useCallback(
+    async (image: ShapeImageInfo) => {
+      selectedImageRef.current = image;
+      const warnings = await collectWarnings([image]);
+
+      if (storeDialogData({ [STORAGE_KEY]: image, [WARNINGS_KEY]: warnings })) {
+        openEditorDialog("");
+      }
+    },
+    [collectWarnings, storeDialogData, openEditorDialog]
+  );
+
+  // Redact across every picture on a slide at once, in slide coordinates
+  const handleSelectSlide = useCallback(
+    async (images: ShapeImageInfo[]) => {
+      selectedSlideImagesRef.current = images;
+      const warnings = await collectWarnings(images);
+
+      if (storeDialogData({ [SLIDE_KEY]: images, [WARNINGS_KEY]: warnings })) {
+        openEditorDialog("?mode=slide");
+      }
+    },
+    [collectWarnings, storeDialogData, openEditorDialog]
+  );
+
+  // Stamp a saved template onto each image, scaled to its own resolution
+  const handleApplyTemplate = useCallback(
+    async (template: RegionTemplate, targets: ShapeImageInfo[]) => {
+      setBatchImages(null);
+      try {
+        const jobs = [];
+        for (const image of targets) {
+          const { naturalWidth, naturalHeight } = await loadImage(image.base64);
+          jobs.push({ image, regions: templateRegions(template, naturalWidth, naturalHeight) });
+        }
+        await applyRedactions(jobs);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to load images";
+        setApplyError(message);
+      }
+    },
+    [applyRedactions]
+  );
+
+  const handleGoToSlide = useCallback(async (slideId: string) => {
+    try {
+      await goToSlide(slideId);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to select slide";
+      setApplyError(message);
+    }
+  }, []);
+
   // Loading state
   if (!isReady) {
     return (
@@ -188,7 +375,19 @@ export function TaskpaneApp() {
         {applying && (
           <div className="applying-overlay">
             <div className="spinner" />
-            <p>Applying blur to slide...</p>
+            <p>{applyProgress ?? "Applying blur to slide..."}</p>
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => applyAbortRef.current?.abort()}
+              disabled={replacing}
+              title={
+                replacing
+                  ? "The slide is being updated; this step can't be cancelled"
+                  : undefined
+              }
+            >
+              Cancel
+            </button>
           </div>
         )}
 
@@ -198,12 +397,27 @@ export function TaskpaneApp() {
           </div>
         )}
 
-        {view === "list" && (
+        {view === "list" && batchImages && (
+          <BatchTemplate
+            images={batchImages}
+            onApply={handleApplyTemplate}
+            onCancel={() => setBatchImages(null)}
+          />
+        )}
+
+        {view === "list" && !batchImages && (
           <ImageList
             images={images}
             loading={loading}
             error={imageError}
+            scope={scope}
+            onScopeChange={setScope}
+            includeLayouts={includeLayouts}
+            onIncludeLayoutsChange={setIncludeLayouts}
             onSelectImage={handleSelectImage}
+            onSelectSlide={handleSelectSlide}
+            onBatchApply={setBatchImages}
+            onGoToSlide={handleGoToSlide}
             onRefresh={refresh}
           />
         )}
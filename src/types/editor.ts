@@ -1,15 +1,50 @@
-export interface BlurRegion {
-  id: string;
+export type BlurMode = "pixelate" | "solid" | "blur";
+
+export type RegionShape = "rect" | "ellipse" | "polygon" | "lasso";
+
+/** Active canvas tool: select existing regions, or draw a new shape. */
+export type EditorTool = "select" | RegionShape;
+
+export interface Point {
   x: number;
   y: number;
-  width: number;
-  height: number;
-  mode: "pixelate" | "solid";
+}
+
+/** Redaction settings applied to a region, independent of its geometry. */
+export interface RegionStyle {
+  mode: BlurMode;
   blockSize: number;
+  /** Harden "pixelate" mode against depixelation (random grid, noise) */
+  hardened: boolean;
+  /** With `hardened`, also shuffle sub-block averages within each block */
+  shuffleBlocks: boolean;
   fillColor: string;
+  /** Box-blur radius in image pixels, used by "blur" mode */
+  blurRadius: number;
 }
 
-export type BlurMode = "pixelate" | "solid";
+/** Axis-aligned bounding box, in image pixels. */
+export interface RegionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Outline of a region. Rectangles and ellipses fill their bounds;
+ * polygons and lassos carry their vertices in image pixels.
+ */
+export type RegionOutline =
+  | { shape: "rect" | "ellipse" }
+  | { shape: "polygon" | "lasso"; points: Point[] };
+
+export type RegionGeometry = RegionBounds & RegionOutline;
+
+export type BlurRegion = RegionGeometry &
+  RegionStyle & {
+    id: string;
+  };
 
 export interface EditorState {
   imageId: string | null;
@@ -17,8 +52,12 @@ export interface EditorState {
   regions: BlurRegion[];
   activeRegionId: string | null;
   mode: BlurMode;
+  tool: EditorTool;
   blockSize: number;
+  hardened: boolean;
+  shuffleBlocks: boolean;
   fillColor: string;
+  blurRadius: number;
   zoom: number;
   panX: number;
   panY: number;
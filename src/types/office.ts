@@ -1,3 +1,23 @@
+interface ShapePlacement {
+  /** Enclosing groups, outermost first */
+  groups: { id: string; name: string }[];
+  /** The shape is a picture placeholder */
+  placeholder: boolean;
+}
+
+/**
+ * Where in the presentation a picture lives, for lookup and labeling: on the
+ * slide itself, or on its layout or master. `hostName` is the layout or
+ * master name, for display.
+ */
+export type ShapeLocation =
+  | ({ host: "slide" } & ShapePlacement)
+  | ({ host: "layout"; masterId: string; layoutId: string; hostName: string } & ShapePlacement)
+  | ({ host: "master"; masterId: string; hostName: string } & ShapePlacement);
+
+/** Where a shape is defined: on the slide itself, or on its layout or master. */
+export type ShapeHost = ShapeLocation["host"];
+
 export interface ShapeImageInfo {
   id: string;
   name: string;
@@ -6,4 +26,22 @@ export interface ShapeImageInfo {
   width: number;
   height: number;
   base64: string;
+  /** Id of the slide the shape was found on (for layouts and masters, the
+   *  first scanned slide that uses them) */
+  slideId: string;
+  /** Zero-based position of that slide in the deck */
+  slideIndex: number;
+  location: ShapeLocation;
+}
+
+/** Which slides `getSlideImages` scans: the selected one, or every slide. */
+export type ScanScope = "selected" | "deck";
+
+/**
+ * Something about a shape that replacing its image cannot carry over to the
+ * redacted copy, reported before the replacement is applied.
+ */
+export interface ReplacementWarning {
+  kind: "animation" | "group" | "placeholder";
+  message: string;
 }
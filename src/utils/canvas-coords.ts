@@ -0,0 +1,34 @@
+import type { Point } from "../types/editor";
+
+/**
+ * Map a mouse position to image pixel coordinates on an element that displays
+ * the whole image (e.g. the zoomed editing surface).
+ */
+export function clientToImage(
+  surface: HTMLElement,
+  clientX: number,
+  clientY: number,
+  imageWidth: number,
+  imageHeight: number
+): Point {
+  // getBoundingClientRect accounts for scroll and zoom automatically
+  const rect = surface.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return { x: 0, y: 0 };
+
+  return {
+    x: ((clientX - rect.left) * imageWidth) / rect.width,
+    y: ((clientY - rect.top) * imageHeight) / rect.height,
+  };
+}
+
+/**
+ * Convert a distance in screen pixels into image pixels.
+ */
+export function screenToImageDistance(
+  surface: HTMLElement,
+  distance: number,
+  imageWidth: number
+): number {
+  const rect = surface.getBoundingClientRect();
+  return rect.width > 0 ? (distance * imageWidth) / rect.width : distance;
+}
@@ -24,3 +24,93 @@ export function stripDataUrlPrefix(dataUrl: string): string {
   const idx = dataUrl.indexOf(",");
   return idx >= 0 ? dataUrl.slice(idx + 1) : dataUrl;
 }
+
+export function base64ToBlob(base64: string, mimeType = "image/png"): Blob {
+  const binary = atob(stripDataUrlPrefix(base64));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(stripDataUrlPrefix(reader.result as string));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Render a flat neutral-gray image, e.g. to stand in for a preview that may
+ * show unredacted content.
+ */
+export function createPlaceholderImage(
+  width: number,
+  height: number,
+  mimeType = "image/jpeg"
+): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("Could not get canvas 2D context"));
+  ctx.fillStyle = "#d9d9d9";
+  ctx.fillRect(0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode placeholder")),
+      mimeType
+    );
+  });
+}
+
+export interface CroppedImage {
+  blob: Blob;
+  sourceWidth: number;
+  sourceHeight: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Cut an image down to the area left after trimming the given fraction (0–1)
+ * from each edge, and re-encode it. Only the pixels inside that area survive.
+ */
+export async function cropImageBlob(
+  image: Blob,
+  trim: { left: number; top: number; right: number; bottom: number },
+  mimeType = "image/png"
+): Promise<CroppedImage> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const sourceWidth = bitmap.width;
+    const sourceHeight = bitmap.height;
+    const sx = Math.round(sourceWidth * trim.left);
+    const sy = Math.round(sourceHeight * trim.top);
+    const width = Math.max(1, Math.round(sourceWidth * (1 - trim.right)) - sx);
+    const height = Math.max(1, Math.round(sourceHeight * (1 - trim.bottom)) - sy);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get canvas 2D context");
+    ctx.drawImage(bitmap, sx, sy, width, height, 0, 0, width, height);
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (b) => (b ? resolve(b) : reject(new Error("Failed to encode cropped image"))),
+        mimeType,
+        0.95
+      );
+    });
+    return { blob, sourceWidth, sourceHeight, width, height };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Whether a key event comes from a field the user is typing in, where keys
+ * such as Backspace must not trigger the editor's shortcuts.
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
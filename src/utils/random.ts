@@ -0,0 +1,47 @@
+/** A source of uniformly distributed numbers in [0, 1). */
+export type RandomSource = () => number;
+
+/** Values fetched per `crypto.getRandomValues` call (16 KB, under its 64 KB cap). */
+const SECURE_POOL_SIZE = 4096;
+const securePool = new Uint32Array(SECURE_POOL_SIZE);
+let securePoolIndex = SECURE_POOL_SIZE;
+
+/**
+ * Cryptographically strong random source, used when writing final pixels.
+ * Values are drawn from a pool refilled in bulk, since noise loops call this
+ * several times per pixel.
+ */
+export function secureRandom(): number {
+  if (securePoolIndex === SECURE_POOL_SIZE) {
+    crypto.getRandomValues(securePool);
+    securePoolIndex = 0;
+  }
+  return securePool[securePoolIndex++] / 0x100000000;
+}
+
+/**
+ * Deterministic random source (mulberry32) seeded from a string.
+ * Used by the live preview so noise doesn't shimmer between frames.
+ */
+export function seededRandom(seed: string): RandomSource {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/** Fisher–Yates shuffle in place. */
+export function shuffleInPlace<T>(items: T[], random: RandomSource): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}